@@ -1,11 +1,16 @@
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import type { OAuthCredentials, OAuthLoginCallbacks } from "@mariozechner/pi-ai";
+import type { AuthStorage, ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { Api, Context, Model, OAuthCredentials, OAuthLoginCallbacks, SimpleStreamOptions } from "@mariozechner/pi-ai";
+import { createAssistantMessageEventStream } from "@mariozechner/pi-ai";
+// The provider module itself (not the lazy-loading wrapper), so the client is created synchronously
+import { streamSimpleOpenAICompletions } from "@mariozechner/pi-ai/openai-completions";
 import * as http from "node:http";
 import * as url from "node:url";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 import * as crypto from "node:crypto";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
 
 // ULID generation (Crockford's Base32, 48-bit timestamp + 80-bit random)
 const ULID_CHARS = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
@@ -25,20 +30,352 @@ function generateUlid(): string {
   return ts + r;
 }
 
-// Cline client identity (match official VS Code extension)
-const CLINE_VERSION = "3.63.0";
-const CLINE_API_BASE = (process.env.PI_CLINE_API_BASE || "https://api.cline.bot/api/v1").replace(/\/+$/, "");
+// Cline client identity (match official VS Code extension); versions are configurable
 const CLINE_PLATFORM = "Visual Studio Code";
-const CLINE_PLATFORM_VERSION = "1.109.3";
 const CLINE_CLIENT_TYPE = "VSCode Extension";
 
+// Extension settings: ~/.pi/agent/cline.json, overridden by <project>/.pi/cline.json,
+// overridden by environment variables
+const USER_CONFIG_FILE = path.join(os.homedir(), ".pi", "agent", "cline.json");
+const PROJECT_CONFIG_PATH = path.join(".pi", "cline.json");
+
+// How the context hook shapes a request: one collapsed transcript, native tool-call
+// messages, or a collapsed history followed by the current turn's native tool calls
+const CONTEXT_STRATEGIES = ["collapse", "native", "hybrid"] as const;
+type ContextStrategy = typeof CONTEXT_STRATEGIES[number];
+
+type ClineConfig = {
+  apiBase: string;
+  clineVersion: string;
+  platformVersion: string;
+  captureDir: string | null;
+  capture: boolean;
+  captureMaxRequests: number;
+  captureMaxBytes: number;
+  callbackPorts: number[];
+  callbackBindAddress: string;
+  loginTimeoutMs: number;
+  refreshSkewSeconds: number;
+  catalogTimeoutMs: number;
+  openRouterTimeoutMs: number;
+  defaultContextWindow: number;
+  defaultMaxTokens: number;
+  modelsTtlMinutes: number;
+  modelsSource: string | null;
+  modelSources: string[] | null;
+  offline: boolean;
+  rotateAccounts: boolean;
+  rateLimitMaxRetries: number;
+  rateLimitMaxDelaySeconds: number;
+  autoFallback: boolean;
+  fallbackModels: string[] | null;
+  contextStrategy: string[] | null;
+  xmlTools: boolean;
+  pinnedModels: string | null;
+};
+
+type ConfigOrigin = "default" | "user" | "project" | "env";
+
+type ConfigField<T> = {
+  default: T;
+  env?: string;
+  expected: string;
+  // Only read from the user file and env. A project file could otherwise send the
+  // Cline tokens to its own server, or change where requests and logins go.
+  userOnly?: boolean;
+  // Returns undefined for invalid values; relative paths resolve against baseDir
+  parse(value: unknown, baseDir: string): T | undefined;
+};
+
+type LoadedClineConfig = {
+  config: ClineConfig;
+  origins: Record<keyof ClineConfig, ConfigOrigin>;
+  files: Array<{ origin: "user" | "project"; file: string; exists: boolean }>;
+  warnings: string[];
+};
+
+function expandHome(value: string): string {
+  return value.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+const parseConfigString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const parseConfigUrl = (value: unknown): string | undefined => {
+  const str = parseConfigString(value);
+  return str && /^https?:\/\/\S+$/.test(str) ? str.replace(/\/+$/, "") : undefined;
+};
+
+const parseConfigInt = (min: number, max: number) => (value: unknown): number | undefined => {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof n === "number" && Number.isInteger(n) && n >= min && n <= max ? n : undefined;
+};
+
+const parseConfigNumber = (min: number) => (value: unknown): number | undefined => {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n >= min ? n : undefined;
+};
+
+const parseConfigBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return undefined;
+  if (/^(1|true|yes|on)$/i.test(value.trim())) return true;
+  if (/^(0|false|no|off)$/i.test(value.trim())) return false;
+  return undefined;
+};
+
+const parseConfigPath = (value: unknown, baseDir: string): string | undefined => {
+  const str = parseConfigString(value);
+  return str ? path.resolve(baseDir, expandHome(str)) : undefined;
+};
+
+// A local path or an http(s) URL
+const parseConfigLocation = (value: unknown, baseDir: string): string | undefined => {
+  const str = parseConfigString(value);
+  if (!str) return undefined;
+  return /^https?:\/\//.test(str) ? str : path.resolve(baseDir, expandHome(str));
+};
+
+// A port, an array of ports, or a "31234-31243" / "31234,31240" string
+const parseConfigPorts = (value: unknown): number[] | undefined => {
+  const isPort = (n: number) => Number.isInteger(n) && n >= 1 && n <= 65535;
+  if (typeof value === "number") return isPort(value) ? [value] : undefined;
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(v => typeof v === "number" && isPort(v)) ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const range = value.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+  if (range) {
+    const [from, to] = [Number(range[1]), Number(range[2])];
+    if (!isPort(from) || !isPort(to) || to < from || to - from > 1000) return undefined;
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  }
+  const ports = value.split(",").map(v => Number(v.trim()));
+  return ports.length > 0 && ports.every(isPort) ? ports : undefined;
+};
+
+// An array of names, or a comma-separated string (env)
+const parseConfigList = (value: unknown): string[] | undefined => {
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || !items.every(item => typeof item === "string")) return undefined;
+  const names = items.map(item => item.trim()).filter(Boolean);
+  return names.length > 0 ? names : undefined;
+};
+
+// "pattern=strategy" rules from a string, array or { pattern: strategy } object; a bare strategy applies to all models
+const parseConfigContextStrategy = (value: unknown): string[] | undefined => {
+  const items = value && typeof value === "object" && !Array.isArray(value)
+    ? Object.entries(value).map(([pattern, strategy]) => typeof strategy === "string" ? `${pattern}=${strategy}` : null)
+    : parseConfigList(value);
+  if (!items || items.length === 0) return undefined;
+
+  const rules: string[] = [];
+  for (const item of items) {
+    if (item === null) return undefined;
+    const [pattern, strategy] = item.includes("=") ? item.split("=", 2).map(part => part.trim()) : ["*", item.trim()];
+    if (!pattern || !(CONTEXT_STRATEGIES as readonly string[]).includes(strategy)) return undefined;
+    rules.push(`${pattern}=${strategy}`);
+  }
+  return rules;
+};
+
+const CONFIG_SCHEMA: { [K in keyof ClineConfig]: ConfigField<ClineConfig[K]> } = {
+  apiBase: {
+    default: "https://api.cline.bot/api/v1",
+    env: "PI_CLINE_API_BASE",
+    expected: "an http(s) URL",
+    userOnly: true,
+    parse: parseConfigUrl,
+  },
+  clineVersion: { default: "3.63.0", expected: "a non-empty string", parse: parseConfigString },
+  platformVersion: { default: "1.109.3", expected: "a non-empty string", parse: parseConfigString },
+  captureDir: {
+    default: null,
+    env: "PI_CLINE_CAPTURE_DIR",
+    expected: "a directory path",
+    userOnly: true,
+    parse: parseConfigPath,
+  },
+  capture: { default: false, env: "PI_CLINE_CAPTURE", expected: "a boolean", parse: parseConfigBoolean },
+  captureMaxRequests: { default: 20, expected: "an integer between 1 and 10000", parse: parseConfigInt(1, 10000) },
+  captureMaxBytes: { default: 10 * 1024 * 1024, expected: "a positive integer (bytes)", parse: parseConfigInt(1024, 1024 * 1024 * 1024) },
+  callbackPorts: {
+    default: parseConfigPorts("31234-31243")!,
+    expected: "a port, an array of ports or a range like \"31234-31243\"",
+    parse: parseConfigPorts,
+  },
+  callbackBindAddress: { default: "127.0.0.1", expected: "a host or IP address", userOnly: true, parse: parseConfigString },
+  loginTimeoutMs: { default: 5 * 60 * 1000, expected: "a positive integer (ms)", parse: parseConfigInt(1000, 24 * 60 * 60 * 1000) },
+  refreshSkewSeconds: { default: 300, expected: "an integer between 0 and 86400", parse: parseConfigInt(0, 24 * 60 * 60) },
+  catalogTimeoutMs: { default: 5000, expected: "a positive integer (ms)", parse: parseConfigInt(100, 10 * 60 * 1000) },
+  openRouterTimeoutMs: { default: 8000, expected: "a positive integer (ms)", parse: parseConfigInt(100, 10 * 60 * 1000) },
+  defaultContextWindow: { default: 128000, expected: "a positive integer", parse: parseConfigInt(1, Number.MAX_SAFE_INTEGER) },
+  defaultMaxTokens: { default: 8192, expected: "a positive integer", parse: parseConfigInt(1, Number.MAX_SAFE_INTEGER) },
+  modelsTtlMinutes: {
+    default: 60,
+    env: "PI_CLINE_MODELS_TTL_MINUTES",
+    expected: "a number >= 0",
+    parse: parseConfigNumber(0),
+  },
+  modelsSource: {
+    default: null,
+    env: "PI_CLINE_MODELS_SOURCE",
+    expected: "a file path or http(s) URL",
+    parse: parseConfigLocation,
+  },
+  modelSources: {
+    default: null,
+    env: "PI_CLINE_MODEL_SOURCES",
+    expected: "a list of source names",
+    parse: parseConfigList,
+  },
+  offline: { default: false, env: "PI_CLINE_OFFLINE", expected: "a boolean", parse: parseConfigBoolean },
+  rotateAccounts: { default: false, env: "PI_CLINE_ROTATE_ACCOUNTS", expected: "a boolean", parse: parseConfigBoolean },
+  rateLimitMaxRetries: { default: 3, expected: "an integer between 0 and 20", parse: parseConfigInt(0, 20) },
+  rateLimitMaxDelaySeconds: { default: 60, expected: "an integer between 1 and 3600", parse: parseConfigInt(1, 3600) },
+  autoFallback: { default: true, expected: "a boolean", parse: parseConfigBoolean },
+  fallbackModels: {
+    default: null,
+    env: "PI_CLINE_FALLBACK_MODELS",
+    expected: "a list of model IDs",
+    parse: parseConfigList,
+  },
+  contextStrategy: {
+    default: null,
+    env: "PI_CLINE_CONTEXT_STRATEGY",
+    expected: "a strategy (collapse, native, hybrid) or \"model-pattern=strategy\" rules",
+    parse: parseConfigContextStrategy,
+  },
+  xmlTools: { default: false, env: "PI_CLINE_XML_TOOLS", expected: "a boolean", userOnly: true, parse: parseConfigBoolean },
+  pinnedModels: {
+    default: null,
+    env: "PI_CLINE_PINNED_MODELS",
+    expected: "a file path",
+    parse: parseConfigPath,
+  },
+};
+
+function loadClineConfig(cwd: string): LoadedClineConfig {
+  const config: any = {};
+  const origins: any = {};
+  const warnings: string[] = [];
+  const keys = Object.keys(CONFIG_SCHEMA) as Array<keyof ClineConfig>;
+
+  for (const key of keys) {
+    config[key] = CONFIG_SCHEMA[key].default;
+    origins[key] = "default";
+  }
+
+  const files: LoadedClineConfig["files"] = [
+    { origin: "user", file: USER_CONFIG_FILE, exists: false },
+    { origin: "project", file: path.resolve(cwd, PROJECT_CONFIG_PATH), exists: false },
+  ];
+
+  for (const layer of files) {
+    if (!fs.existsSync(layer.file)) continue;
+    layer.exists = true;
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(layer.file, "utf-8"));
+    } catch (e) {
+      warnings.push(`${layer.file}: invalid JSON (${e instanceof Error ? e.message : String(e)})`);
+      continue;
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      warnings.push(`${layer.file}: expected a JSON object`);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (key === "$schema") continue;
+      const field = (CONFIG_SCHEMA as any)[key] as ConfigField<any> | undefined;
+      if (!field) {
+        warnings.push(`${layer.file}: unknown setting "${key}"`);
+        continue;
+      }
+      if (field.userOnly && layer.origin === "project") {
+        warnings.push(`${layer.file}: "${key}" can only be set in ${USER_CONFIG_FILE} or the environment; ignored`);
+        continue;
+      }
+      // Explicit null resets a nullable setting
+      const parsed = value === null && field.default === null ? null : field.parse(value, path.dirname(layer.file));
+      if (parsed === undefined) {
+        warnings.push(`${layer.file}: "${key}" must be ${field.expected}`);
+        continue;
+      }
+      config[key] = parsed;
+      origins[key] = layer.origin;
+    }
+  }
+
+  // Environment variables take precedence over both config files
+  for (const key of keys) {
+    const field: ConfigField<any> = CONFIG_SCHEMA[key];
+    const raw = field.env ? process.env[field.env] : undefined;
+    if (raw === undefined || raw.trim() === "") continue;
+
+    const parsed = field.parse(raw, cwd);
+    if (parsed === undefined) {
+      warnings.push(`${field.env}: must be ${field.expected}`);
+      continue;
+    }
+    config[key] = parsed;
+    origins[key] = "env";
+  }
+
+  return { config, origins, files, warnings };
+}
+
+let loadedClineConfig = loadClineConfig(process.cwd());
+let clineConfig: ClineConfig = loadedClineConfig.config;
+
+function reloadClineConfig(cwd: string): LoadedClineConfig {
+  loadedClineConfig = loadClineConfig(cwd);
+  clineConfig = loadedClineConfig.config;
+  return loadedClineConfig;
+}
+
+function formatPortList(ports: number[]): string {
+  const isRange = ports.length > 2 && ports.every((port, i) => i === 0 || port === ports[i - 1] + 1);
+  return isRange ? `${ports[0]}-${ports[ports.length - 1]}` : ports.join(", ");
+}
+
+function formatConfigValue(value: unknown): string {
+  if (value === null) return "(not set)";
+  if (Array.isArray(value)) {
+    return value.every(v => typeof v === "number") ? formatPortList(value) : value.join(", ");
+  }
+  return String(value);
+}
+
+function formatConfigReport(loaded: LoadedClineConfig): string {
+  const fileLines = loaded.files.map(f => `${f.origin}: ${f.file}${f.exists ? "" : " (not found)"}`);
+
+  const keys = Object.keys(CONFIG_SCHEMA) as Array<keyof ClineConfig>;
+  const width = Math.max(...keys.map(key => key.length));
+  const valueLines = keys.map(key => {
+    const origin = loaded.origins[key];
+    const field: ConfigField<any> = CONFIG_SCHEMA[key];
+    const originLabel = origin === "env" ? `env ${field.env}` : origin;
+    return `${key.padEnd(width)}  ${formatConfigValue(loaded.config[key])}  [${originLabel}]`;
+  });
+
+  const lines = ["Cline config", ...fileLines, "", ...valueLines];
+  if (loaded.warnings.length > 0) {
+    lines.push("", "Warnings:", ...loaded.warnings.map(w => `- ${w}`));
+  }
+  return lines.join("\n");
+}
+
 function buildBasicClineHeaders(): Record<string, string> {
   return {
     "X-Platform": CLINE_PLATFORM,
-    "X-Platform-Version": CLINE_PLATFORM_VERSION,
+    "X-Platform-Version": clineConfig.platformVersion,
     "X-Client-Type": CLINE_CLIENT_TYPE,
-    "X-Client-Version": CLINE_VERSION,
-    "X-Core-Version": CLINE_VERSION,
+    "X-Client-Version": clineConfig.clineVersion,
+    "X-Core-Version": clineConfig.clineVersion,
   };
 }
 
@@ -63,8 +400,13 @@ function buildClineAuthHeaders(): Record<string, string> {
 type ClineScaffold = {
   taskProgress: string;
   environmentDetails: string;
+  // Capture file the scaffold was extracted from (unset for the built-in fallback)
+  source?: string;
 };
 
+// Cline's Plan/Act modes (/cline-mode). ACT is the default for normal agent use.
+type ClineMode = "plan" | "act";
+
 const FALLBACK_TASK_PROGRESS_BLOCK = `
 # task_progress List (Optional - Plan Mode)
 
@@ -85,6 +427,37 @@ Reminder on how to use the task_progress parameter:
 
 **Remember:** Keeping the task_progress list updated helps track progress and ensures nothing is missed.`;
 
+const ACT_TASK_PROGRESS_BLOCK = `
+# task_progress RECOMMENDED
+
+When starting a new task, it is recommended to include a todo list using the task_progress parameter.
+
+
+1. Include the task_progress parameter in your next tool call
+2. Create a comprehensive checklist of all steps needed
+3. Use markdown format: - [ ] for incomplete, - [x] for complete
+
+**Benefits of creating a todo/task_progress list now:**
+	- Clear roadmap for implementation
+	- Progress tracking throughout the task
+	- Nothing gets forgotten or missed
+	- Users can see, monitor, and edit the plan
+
+**Remember:** Keeping the task_progress list updated helps track progress and ensures nothing is missed.`;
+
+// Built-in task_progress block and the heading that identifies a captured one, per mode
+const TASK_PROGRESS_BLOCKS: Record<ClineMode, { fallback: string; heading: string }> = {
+  plan: { fallback: FALLBACK_TASK_PROGRESS_BLOCK, heading: "# task_progress List (Optional - Plan Mode)" },
+  act: { fallback: ACT_TASK_PROGRESS_BLOCK, heading: "# task_progress RECOMMENDED" },
+};
+
+const CURRENT_MODE_TEXT: Record<ClineMode, string> = {
+  plan: `PLAN MODE
+In this mode you should focus on information gathering, asking questions, and architecting a solution. Once you have a plan, use the plan_mode_respond tool to engage in a conversational back and forth with the user. Do not use the plan_mode_respond tool until you've gathered all the information you need e.g. with read_file or ask_followup_question.
+(Remember: If it seems the user wants you to use tools only available in Act Mode, you should ask the user to switch to Act mode by running the "/cline-mode act" command. You do not have the ability to switch to Act Mode yourself, and must wait for the user to do it themselves once they are satisfied with the plan.)`,
+  act: "ACT MODE",
+};
+
 function formatLocalTimeWithTimezone(): string {
   const now = new Date();
   const formatter = new Intl.DateTimeFormat(undefined, {
@@ -102,9 +475,178 @@ function formatLocalTimeWithTimezone(): string {
   return `${formatter.format(now)} (${timeZone}, UTC${timeZoneOffsetStr})`;
 }
 
-function buildFallbackEnvironmentDetails(): string {
-  const cwd = process.cwd();
+// Tools Cline looks for; only those actually found on PATH are reported
+const CLI_TOOL_CANDIDATES = [
+  "gh", "git", "docker", "kubectl", "npm", "yarn", "pnpm", "bun", "cargo", "go", "python3", "pip",
+  "curl", "jq", "make", "node", "psql", "sqlite3", "code", "grep", "sed", "awk", "brew", "bundle",
+];
+
+let detectedCliTools: string[] | null = null;
+
+function detectCliTools(): string[] {
+  if (detectedCliTools) return detectedCliTools;
+
+  const pathDirs = (process.env.PATH || "").split(path.delimiter).filter(Boolean);
+  const extensions = process.platform === "win32"
+    ? (process.env.PATHEXT || ".EXE;.CMD;.BAT").split(";").map(ext => ext.toLowerCase())
+    : [""];
+  const isExecutable = (file: string) => {
+    try {
+      fs.accessSync(file, process.platform === "win32" ? fs.constants.F_OK : fs.constants.X_OK);
+      return fs.statSync(file).isFile();
+    } catch {
+      return false;
+    }
+  };
+
+  detectedCliTools = CLI_TOOL_CANDIDATES.filter(tool =>
+    pathDirs.some(dir => extensions.some(ext => isExecutable(path.join(dir, tool + ext)))),
+  );
+  return detectedCliTools;
+}
+
+// Bounded workspace listing, like Cline's initial file list
+const MAX_LISTED_FILES = 200;
+const FILE_LISTING_TTL_MS = 30 * 1000;
+const ALWAYS_IGNORED_DIRS = new Set([".git", "node_modules", ".hg", ".svn", "__pycache__", ".venv", "venv", "dist", "build", "target", ".next"]);
+
+const execFileAsync = promisify(execFile);
+
+let fileListingCache: { cwd: string; at: number; stamp: string; listing: string } | null = null;
+
+// Files tracked or not ignored by git; null when cwd isn't inside a git work tree
+async function listGitFiles(cwd: string): Promise<string[] | null> {
+  try {
+    const { stdout } = await execFileAsync("git", ["ls-files", "--cached", "--others", "--exclude-standard"], {
+      cwd,
+      encoding: "utf-8",
+      timeout: 2000,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout.split("\n").filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+// Breadth-first walk honouring simple root .gitignore entries, for non-git directories
+async function walkFiles(cwd: string, limit: number): Promise<string[]> {
+  let ignored: string[] = [];
+  try {
+    ignored = (await fs.promises.readFile(path.join(cwd, ".gitignore"), "utf-8"))
+      .split("\n")
+      .map(line => line.trim().replace(/^\//, "").replace(/\/$/, ""))
+      .filter(line => line && !line.startsWith("#") && !line.startsWith("!") && !/[*?[]/.test(line));
+  } catch {
+    // No .gitignore
+  }
+
+  const files: string[] = [];
+  const queue = [""];
+  while (queue.length > 0 && files.length < limit) {
+    const dir = queue.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(path.join(cwd, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (ignored.includes(relative) || ignored.includes(entry.name)) continue;
+      if (entry.isDirectory()) {
+        if (!ALWAYS_IGNORED_DIRS.has(entry.name)) queue.push(relative);
+      } else if (entry.isFile()) {
+        files.push(relative);
+        if (files.length >= limit) break;
+      }
+    }
+  }
+  return files;
+}
+
+// Modification times of cwd and the git index: they change when top-level files come or go, or git tracks a change
+function fileListingStamp(cwd: string): string {
+  return [cwd, path.join(cwd, ".git", "index")]
+    .map(file => {
+      try {
+        return String(fs.statSync(file).mtimeMs);
+      } catch {
+        return "-";
+      }
+    })
+    .join(":");
+}
+
+// Reused while cwd and the git index are unchanged, for at most FILE_LISTING_TTL_MS (untracked files deeper down don't touch either)
+async function buildFileListing(cwd: string): Promise<string> {
+  const stamp = fileListingStamp(cwd);
+  if (
+    fileListingCache &&
+    fileListingCache.cwd === cwd &&
+    fileListingCache.stamp === stamp &&
+    Date.now() - fileListingCache.at < FILE_LISTING_TTL_MS
+  ) {
+    return fileListingCache.listing;
+  }
+
+  let listing: string;
+  if (path.resolve(cwd) === os.homedir()) {
+    listing = "(Desktop files not shown automatically. Use list_files to explore if needed.)";
+  } else {
+    const gitFiles = await listGitFiles(cwd);
+    const files = (gitFiles ?? await walkFiles(cwd, MAX_LISTED_FILES + 1))
+      .filter(file => !file.split("/").some(part => ALWAYS_IGNORED_DIRS.has(part)))
+      .sort();
+    const shown = files.slice(0, MAX_LISTED_FILES);
+    listing = shown.length === 0 ? "(No files)" : shown.join("\n");
+    if (files.length > MAX_LISTED_FILES) {
+      listing += "\n\n(File list truncated. Use list_files on specific subdirectories if you need to explore further.)";
+    }
+  }
+
+  fileListingCache = { cwd, at: Date.now(), stamp, listing };
+  return listing;
+}
+
+// Tokens in use: the latest assistant usage report, plus an estimate for what came after it
+function estimateContextTokens(messages: any[]): number {
+  let tokens = 0;
+  let index = messages.length - 1;
+  for (; index >= 0; index--) {
+    const usage = messages[index]?.role === "assistant" ? messages[index]?.usage : null;
+    if (usage && typeof usage.input === "number") {
+      tokens = (usage.input || 0) + (usage.output || 0) + (usage.cacheRead || 0) + (usage.cacheWrite || 0);
+      break;
+    }
+  }
+  for (const message of messages.slice(index + 1)) {
+    tokens += estimateTextTokens(extractUserText(message?.content));
+  }
+  return tokens;
+}
+
+// Rough token estimate (~4 characters per token), good enough for budgeting
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatContextWindowUsage(usedTokens: number, contextWindow: number): string {
+  const percent = contextWindow > 0 ? Math.round((usedTokens / contextWindow) * 100) : 0;
+  return `${usedTokens.toLocaleString("en-US")} / ${formatTokenCount(contextWindow).toUpperCase()} tokens used (${percent}%)`;
+}
+
+// <environment_details> for one request: real cwd, file listing, tools, time and context usage
+async function buildEnvironmentDetails(options: { cwd: string; contextWindow: number; usedTokens: number; mode: ClineMode }): Promise<string> {
+  const { cwd } = options;
+  const fileListing = await buildFileListing(cwd);
   const hint = path.basename(cwd) || "workspace";
+  const tools = detectCliTools();
+  const toolsText = tools.length > 0
+    ? `These are some of the tools on the user's machine, and may be useful if needed to accomplish the task: ${tools.join(", ")}. This list is not exhaustive, and other tools may be available.`
+    : "No common CLI tools were detected on PATH. Other tools may still be available.";
+
   return `<environment_details>
 # Visual Studio Code Visible Files
 (No visible files)
@@ -116,34 +658,32 @@ function buildFallbackEnvironmentDetails(): string {
 ${formatLocalTimeWithTimezone()}
 
 # Current Working Directory (${cwd}) Files
-(No files)
+${fileListing}
 
 # Workspace Configuration
-{
-  "workspaces": {
-    "${cwd}": {
-      "hint": "${hint}"
-    }
-  }
-}
+${JSON.stringify({ workspaces: { [cwd]: { hint } } }, null, 2)}
 
 # Detected CLI Tools
-These are some of the tools on the user's machine, and may be useful if needed to accomplish the task: gh, git, docker, kubectl, npm, yarn, pnpm, cargo, go, curl, jq, make, node, psql, sqlite3, code, grep, sed, awk, brew, bundle. This list is not exhaustive, and other tools may be available.
+${toolsText}
 
 # Context Window Usage
-0 / 204,8K tokens used (0%)
+${formatContextWindowUsage(options.usedTokens, options.contextWindow)}
 
 # Current Mode
-PLAN MODE
-In this mode you should focus on information gathering, asking questions, and architecting a solution. Once you have a plan, use the plan_mode_respond tool to engage in a conversational back and forth with the user. Do not use the plan_mode_respond tool until you've gathered all the information you need e.g. with read_file or ask_followup_question.
-(Remember: If it seems the user wants you to use tools only available in Act Mode, you should ask the user to "toggle to Act mode" (use those words) - they will have to manually do this themselves with the Plan/Act toggle button below. You do not have the ability to switch to Act Mode yourself, and must wait for the user to do it themselves once they are satisfied with the plan. You also cannot present an option to toggle to Act mode, as this will be something you need to direct the user to do manually themselves.)
+${CURRENT_MODE_TEXT[options.mode]}
 </environment_details>`;
 }
 
-function loadScaffoldFromDebugCapture(): ClineScaffold | null {
+// Recorded in <id>-request.headers.json by writeCapture(), so our own captures can be told apart
+const CAPTURE_WRITER = "pi-cline";
+
+// task_progress block of the given mode from the newest Cline debug capture that has one.
+// Captures written by this extension (capture: true) only echo its own blocks and are skipped.
+function loadScaffoldFromDebugCapture(mode: ClineMode): ClineScaffold | null {
+  const { fallback, heading } = TASK_PROGRESS_BLOCKS[mode];
   try {
     const candidateDirs = [
-      process.env.PI_CLINE_CAPTURE_DIR,
+      clineConfig.captureDir,
       path.join(process.cwd(), ".debug", "capture"),
       path.join(process.cwd(), ".debug-capture"), // legacy location
       path.join(os.homedir(), ".pi", "agent", ".debug", "capture"),
@@ -160,6 +700,8 @@ function loadScaffoldFromDebugCapture(): ClineScaffold | null {
         .reverse();
 
       for (const file of files) {
+        if (isOwnCapture(path.join(captureDir, file.replace(/-request\.body\.json$/, "-request.headers.json")))) continue;
+
         const body = JSON.parse(fs.readFileSync(path.join(captureDir, file), "utf-8"));
         const messages = Array.isArray(body?.messages) ? body.messages : [];
         for (const msg of messages) {
@@ -168,11 +710,11 @@ function loadScaffoldFromDebugCapture(): ClineScaffold | null {
             .filter((part: any) => part?.type === "text" && typeof part?.text === "string")
             .map((part: any) => part.text as string);
 
-          const taskProgress = textBlocks.find((t: string) => t.includes("# task_progress List (Optional - Plan Mode)"));
+          const taskProgress = textBlocks.find((t: string) => t.includes(heading));
           const environmentDetails = textBlocks.find((t: string) => t.includes("<environment_details>"));
 
-          if (taskProgress && environmentDetails) {
-            return { taskProgress, environmentDetails };
+          if (taskProgress && environmentDetails && taskProgress.trim() !== fallback.trim()) {
+            return { taskProgress, environmentDetails, source: path.join(captureDir, file) };
           }
         }
       }
@@ -183,6 +725,14 @@ function loadScaffoldFromDebugCapture(): ClineScaffold | null {
   return null;
 }
 
+function isOwnCapture(headersFile: string): boolean {
+  try {
+    return JSON.parse(fs.readFileSync(headersFile, "utf-8"))?.writer === CAPTURE_WRITER;
+  } catch {
+    return false;
+  }
+}
+
 function extractUserText(content: any): string {
   if (typeof content === "string") return content.trim();
   if (Array.isArray(content)) {
@@ -219,7 +769,7 @@ function isClineWrappedUserContent(content: any): boolean {
   if (textBlocks.length < 1) return false;
 
   const hasTask = textBlocks.some((t: string) => /<task>[\s\S]*<\/task>/.test(t));
-  const hasTaskProgress = textBlocks.some((t: string) => t.includes("# task_progress List (Optional - Plan Mode)"));
+  const hasTaskProgress = textBlocks.some((t: string) => t.includes("# task_progress"));
   const hasEnvironment = textBlocks.some((t: string) => t.includes("<environment_details>"));
 
   return hasTask && hasTaskProgress && hasEnvironment;
@@ -239,6 +789,21 @@ function extractTaskBodyFromWrappedContent(content: any): string {
   return "";
 }
 
+// Pi renders compaction summaries as a user message starting with this text
+const COMPACTION_SUMMARY_PREFIX = "The conversation history before this point was compacted into the following summary:";
+
+// Summary text of a Pi compaction summary message (raw or already converted to a user message)
+function extractCompactionSummary(msg: any): string | null {
+  if (msg?.role === "compactionSummary") {
+    return typeof msg.summary === "string" ? msg.summary.trim() : "";
+  }
+  if (msg?.role !== "user") return null;
+  const text = extractUserText(msg.content);
+  if (!text.startsWith(COMPACTION_SUMMARY_PREFIX)) return null;
+  const match = text.match(/<summary>\s*([\s\S]*?)\s*<\/summary>/);
+  return match ? match[1].trim() : text.slice(COMPACTION_SUMMARY_PREFIX.length).trim();
+}
+
 type ToolCallContext = {
   name: string;
   summary: string;
@@ -338,7 +903,7 @@ function sanitizeMessageContentForCline(msg: any): any {
   const fallbackText =
     role === "assistant"
       ? "(assistant message)"
-      : role === "tool"
+      : role === "tool" || role === "toolResult"
         ? "(tool output)"
         : "(no content)";
 
@@ -389,19 +954,225 @@ function sanitizeMessageContentForCline(msg: any): any {
   return { ...baseMessage, content: fallbackText };
 }
 
-function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffold): any[] {
+// Room the collapsed request must leave in the model's context window
+type TranscriptBudget = {
+  contextWindow: number;
+  maxTokens: number;
+  systemPromptTokens: number;
+};
+
+// The newest tool results are never shrunk
+const PROTECTED_TOOL_RESULTS = 3;
+const TOOL_RESULT_HEAD_CHARS = 2000;
+const TOOL_RESULT_TAIL_CHARS = 1000;
+// Token estimates are rough; keep some headroom below the context window
+const TRANSCRIPT_BUDGET_RATIO = 0.9;
+
+const TOOL_RESULT_PATTERN = /<tool_result>\n<tool_call>\n([\s\S]*?)\n<\/tool_call>\n([\s\S]*?)\n<\/tool_result>/g;
+
+function renderToolResult(summary: string, body: string): string {
+  return `<tool_result>\n<tool_call>\n${summary}\n</tool_call>\n${body}\n</tool_result>`;
+}
+
+// Keep the start and end of a long tool output. Already elided bodies are left as they are.
+function elideToolOutput(body: string): string {
+  if (body.length <= TOOL_RESULT_HEAD_CHARS + TOOL_RESULT_TAIL_CHARS + 200) return body;
+  const omitted = body.length - TOOL_RESULT_HEAD_CHARS - TOOL_RESULT_TAIL_CHARS;
+  return `${body.slice(0, TOOL_RESULT_HEAD_CHARS)}\n[... ${omitted.toLocaleString("en-US")} characters omitted to fit the context window ...]\n${body.slice(-TOOL_RESULT_TAIL_CHARS)}`;
+}
+
+function summarizeToolOutput(body: string): string {
+  if (body.startsWith("(output omitted")) return body;
+  const lines = body.split("\n").length;
+  return `(output omitted to fit the context window: ${lines} line${lines === 1 ? "" : "s"})`;
+}
+
+// Shrink tool output bodies (oldest first) until `excessChars` characters are saved: first
+// head/tail elision, then one-line summaries. The newest PROTECTED_TOOL_RESULTS results are
+// only head/tail-elided if that is still not enough. Returns the characters still over.
+function shrinkToolOutputs(results: Array<{ body: string }>, excessChars: number): number {
+  const shrinkable = results.slice(0, Math.max(0, results.length - PROTECTED_TOOL_RESULTS));
+
+  // Summaries count the lines of the original output, not of the elided one
+  const originals = shrinkable.map(result => result.body);
+  for (const shrink of [elideToolOutput, summarizeToolOutput]) {
+    shrinkable.forEach((result, index) => {
+      if (excessChars <= 0) return;
+      const body = shrink(shrink === summarizeToolOutput ? originals[index] : result.body);
+      excessChars -= result.body.length - body.length;
+      result.body = body;
+    });
+  }
+
+  // Last resort: elide the protected results too, oldest first. They are never summarised.
+  for (const result of results.slice(shrinkable.length)) {
+    if (excessChars <= 0) break;
+    const body = elideToolOutput(result.body);
+    excessChars -= result.body.length - body.length;
+    result.body = body;
+  }
+
+  return excessChars;
+}
+
+// Shrink older <tool_result> bodies until the transcript fits `maxTokens`. User/assistant
+// turns are kept intact.
+function fitTranscriptToBudget(transcript: string, maxTokens: number): string {
+  const excessChars = (estimateTextTokens(transcript) - Math.max(0, maxTokens)) * 4;
+  if (excessChars <= 0) return transcript;
+
+  const segments: Array<{ text: string } | { summary: string; body: string }> = [];
+  let lastIndex = 0;
+  for (const match of transcript.matchAll(TOOL_RESULT_PATTERN)) {
+    const index = match.index ?? 0;
+    segments.push({ text: transcript.slice(lastIndex, index) });
+    segments.push({ summary: match[1], body: match[2] });
+    lastIndex = index + match[0].length;
+  }
+  segments.push({ text: transcript.slice(lastIndex) });
+
+  shrinkToolOutputs(segments.filter((segment): segment is { summary: string; body: string } => "body" in segment), excessChars);
+  return segments.map(segment => ("body" in segment ? renderToolResult(segment.summary, segment.body) : segment.text)).join("");
+}
+
+// Text plus tool call arguments of a native message
+function estimateMessageTokens(msg: any): number {
+  const toolCalls = Array.isArray(msg?.content) ? msg.content.filter((part: any) => part?.type === "toolCall") : [];
+  return toolCalls.reduce(
+    (sum: number, call: any) => sum + estimateTextTokens(JSON.stringify(call.arguments ?? {})),
+    estimateTextTokens(extractUserText(msg?.content)),
+  );
+}
+
+// Native counterpart of fitTranscriptToBudget(): shrinks the text of older toolResult
+// messages until the messages fit `maxTokens`. Tool calls, images and other turns are kept.
+function fitNativeMessagesToBudget(messages: any[], maxTokens: number): any[] {
+  const totalTokens = messages.reduce((sum: number, msg: any) => sum + estimateMessageTokens(msg), 0);
+  const excessChars = (totalTokens - Math.max(0, maxTokens)) * 4;
+  if (excessChars <= 0) return messages;
+
+  const results = messages.flatMap((msg: any, index: number) =>
+    msg?.role === "toolResult" ? [{ index, body: extractUserText(msg.content) }] : []);
+  const originals = results.map(result => result.body);
+  shrinkToolOutputs(results, excessChars);
+
+  const fitted = [...messages];
+  results.forEach((result, i) => {
+    if (result.body === originals[i]) return;
+    const msg = messages[result.index];
+    const otherParts = Array.isArray(msg.content) ? msg.content.filter((part: any) => part?.type !== "text") : [];
+    fitted[result.index] = { ...msg, content: [{ type: "text", text: result.body }, ...otherParts] };
+  });
+  return fitted;
+}
+
+// Tokens the request messages may use: the context window (with headroom) minus the reply and system prompt
+function messageTokenLimit(budget: TranscriptBudget): number {
+  return Math.floor(budget.contextWindow * TRANSCRIPT_BUDGET_RATIO) - budget.maxTokens - budget.systemPromptTokens;
+}
+
+// "*" matches any characters; patterns without "*" match the exact model ID
+function matchesModelPattern(modelId: string, pattern: string): boolean {
+  const source = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`, "i").test(modelId);
+}
+
+// `contextStrategy` rules, else the collapsed transcript: it is the only shape known to work
+// on every Cline route, so native and hybrid are opt-in per model
+function resolveContextStrategy(modelId: string | undefined): ContextStrategy {
+  const id = modelId || "";
+  for (const rule of clineConfig.contextStrategy ?? []) {
+    const separator = rule.lastIndexOf("=");
+    if (matchesModelPattern(id, rule.slice(0, separator))) return rule.slice(separator + 1) as ContextStrategy;
+  }
+  return "collapse";
+}
+
+// Native messages keep their tool calls and results; only empty text blocks are dropped
+// and empty messages get placeholder text. Other message types pass through unchanged.
+function sanitizeNativeMessageForCline(msg: any): any {
+  const role = msg?.role;
+  if (role !== "user" && role !== "assistant" && role !== "toolResult") return msg;
+
+  const parts = typeof msg.content === "string"
+    ? [{ type: "text", text: msg.content }]
+    : Array.isArray(msg.content) ? msg.content : [];
+  const kept = parts.filter((part: any) => part?.type !== "text" || (typeof part.text === "string" && part.text.trim().length > 0));
+  if (kept.length > 0) return { ...msg, content: kept };
+
+  const fallbackText = role === "assistant" ? "(assistant message)" : role === "toolResult" ? "(no output)" : "(no content)";
+  return { ...msg, content: [{ type: "text", text: fallbackText }] };
+}
+
+function shapeContextMessagesForCline(
+  messages: any[],
+  scaffold: ClineScaffold,
+  budget: TranscriptBudget,
+  strategy: ContextStrategy,
+): any[] {
+  if (strategy === "collapse") return collapseContextMessagesForCline(messages, scaffold, budget);
+
+  let lastUserIndex = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]?.role === "user") {
+      lastUserIndex = i;
+      break;
+    }
+  }
+
+  if (strategy === "native") {
+    // The first user message still carries Cline's <task>/task_progress/environment_details envelope
+    const firstUserIndex = messages.findIndex((m: any) => m?.role === "user");
+    const shaped = messages.map((msg: any, i: number) => i === firstUserIndex && !isClineWrappedUserContent(msg.content)
+      ? { ...msg, content: wrapUserMessageForCline(msg.content, scaffold) }
+      : sanitizeNativeMessageForCline(msg));
+    return fitNativeMessagesToBudget(shaped, messageTokenLimit(budget));
+  }
+
+  // Hybrid: history up to and including the latest user message is collapsed; the
+  // current turn's tool calls and results after it stay native. The tail is only shrunk
+  // when it leaves no room for the scaffold; otherwise older history gives way first.
+  if (lastUserIndex < 0) return shapeContextMessagesForCline(messages, scaffold, budget, "native");
+  const scaffoldTokens = estimateTextTokens(scaffold.taskProgress) + estimateTextTokens(scaffold.environmentDetails);
+  const tail = fitNativeMessagesToBudget(
+    messages.slice(lastUserIndex + 1).map((m: any) => sanitizeNativeMessageForCline(m)),
+    messageTokenLimit(budget) - scaffoldTokens,
+  );
+  const tailTokens = tail.reduce((sum: number, m: any) => sum + estimateMessageTokens(m), 0);
+  const collapsed = collapseContextMessagesForCline(messages.slice(0, lastUserIndex + 1), scaffold, {
+    ...budget,
+    systemPromptTokens: budget.systemPromptTokens + tailTokens,
+  });
+  return [...collapsed, ...tail];
+}
+
+function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffold, budget?: TranscriptBudget): any[] {
   const toolCallContextById = collectToolCallContext(messages);
   const sanitized = messages.map((m: any) => sanitizeMessageContentForCline(m));
 
   const firstSystem = sanitized.find((m: any) => m?.role === "system");
   const systemText = firstSystem ? extractUserText(firstSystem.content) : "";
 
+  // After a Pi compaction the summary replaces everything before it, including
+  // wrapped transcripts that still carry the pre-compaction history.
+  let compactionIndex = -1;
+  let compactionSummary = "";
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const summary = extractCompactionSummary(messages[i]);
+    if (summary === null) continue;
+
+    compactionIndex = i;
+    compactionSummary = summary;
+    break;
+  }
+
   // Idempotency: if we already have a wrapped Cline user message in the history,
   // reuse its <task> body and append only the turns that happened after it.
   let lastWrappedUserIndex = -1;
   let baseTranscript = "";
 
-  for (let i = sanitized.length - 1; i >= 0; i--) {
+  for (let i = sanitized.length - 1; i > compactionIndex; i--) {
     const msg = sanitized[i];
     if (msg?.role !== "user") continue;
     if (!isClineWrappedUserContent(msg?.content)) continue;
@@ -414,9 +1185,11 @@ function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffol
   const transcriptParts: string[] = [];
   if (baseTranscript.length > 0) {
     transcriptParts.push(baseTranscript);
+  } else if (compactionIndex >= 0) {
+    transcriptParts.push(`[compaction_summary]\n${compactionSummary || "(empty summary)"}`);
   }
 
-  const startIndex = lastWrappedUserIndex >= 0 ? lastWrappedUserIndex + 1 : 0;
+  const startIndex = Math.max(lastWrappedUserIndex, compactionIndex) + 1;
   const noOutputCountsByCommand = new Map<string, number>();
   const seenNoOutputCommands = new Set<string>();
 
@@ -440,7 +1213,7 @@ function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffol
     const text = extractUserText(msg?.content).trim();
     if (!text) continue;
 
-    if (role === "tool") {
+    if (role === "tool" || role === "toolResult") {
       const toolCallId =
         (sourceMsg as any)?.toolCallId ??
         (sourceMsg as any)?.tool_call_id ??
@@ -469,9 +1242,7 @@ function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffol
         seenNoOutputCommands.add(toolCallSummary);
       }
 
-      transcriptParts.push(
-        `<tool_result>\n<tool_call>\n${toolCallSummary}\n</tool_call>\n${text}\n</tool_result>`,
-      );
+      transcriptParts.push(renderToolResult(toolCallSummary, text));
     } else {
       transcriptParts.push(`[${role}]\n${text}`);
     }
@@ -496,7 +1267,16 @@ function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffol
     );
   }
 
-  const transcript = transcriptParts.join("\n\n").trim() || "(no conversation yet)";
+  let transcript = transcriptParts.join("\n\n").trim() || "(no conversation yet)";
+
+  // Reserve room for the reply, system prompt and scaffold; shrink old tool output to fit the rest
+  if (budget) {
+    const reserved =
+      estimateTextTokens(systemText) +
+      estimateTextTokens(scaffold.taskProgress) +
+      estimateTextTokens(scaffold.environmentDetails);
+    transcript = fitTranscriptToBudget(transcript, messageTokenLimit(budget) - reserved);
+  }
 
   const collapsed: any[] = [];
   if (systemText.trim().length > 0) {
@@ -514,12 +1294,122 @@ function collapseContextMessagesForCline(messages: any[], scaffold: ClineScaffol
 // Cache file path for model state persistence
 const MODELS_CACHE_FILE = path.join(os.homedir(), ".pi", "agent", ".cline-models-cache.json");
 
+// Bump when the cache layout changes; older layouts are migrated in migrateModelsCache()
+const MODELS_CACHE_VERSION = 2;
+
+// A successful refresh is considered fresh for `modelsTtlMinutes`
+function modelsCacheTtlMs(): number {
+  return clineConfig.modelsTtlMinutes * 60 * 1000;
+}
+
+// Validators and last parsed entries per source, used for conditional requests
+type SourceCacheRecord = {
+  etag?: string;
+  lastModified?: string;
+  entries: CatalogEntry[];
+  checkedAt: number;
+};
+
+// OpenRouter metadata is cached only for the catalog IDs it was fetched for
+type OpenRouterCacheRecord = {
+  etag?: string;
+  lastModified?: string;
+  ids: string[];
+  info: any[];
+};
+
+type ModelsCache = {
+  version: number;
+  timestamp: number | null;
+  models: any[];
+  sources: Record<string, SourceCacheRecord>;
+  openRouter?: OpenRouterCacheRecord;
+};
+
+function migrateModelsCache(raw: any): ModelsCache | null {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.models)) return null;
+
+  const version = raw.version ?? 1;
+  if (typeof version !== "number" || version < 1) return null;
+
+  const models = raw.models.filter((m: any) => typeof m?.id === "string" && m.id.trim());
+  const timestamp = typeof raw.timestamp === "number" ? raw.timestamp : null;
+
+  // v1: { models, timestamp } without source validators
+  if (version === 1) {
+    return { version: MODELS_CACHE_VERSION, timestamp, models, sources: {} };
+  }
+
+  const sources: Record<string, SourceCacheRecord> = {};
+  if (raw.sources && typeof raw.sources === "object") {
+    for (const [name, record] of Object.entries<any>(raw.sources)) {
+      if (!Array.isArray(record?.entries)) continue;
+      sources[name] = {
+        etag: typeof record.etag === "string" ? record.etag : undefined,
+        lastModified: typeof record.lastModified === "string" ? record.lastModified : undefined,
+        entries: parseCatalogJson(record.entries),
+        checkedAt: typeof record.checkedAt === "number" ? record.checkedAt : 0,
+      };
+    }
+  }
+
+  const openRouter = Array.isArray(raw.openRouter?.ids) && Array.isArray(raw.openRouter?.info)
+    ? raw.openRouter as OpenRouterCacheRecord
+    : undefined;
+
+  return { version: MODELS_CACHE_VERSION, timestamp, models, sources, openRouter };
+}
+
+function loadModelsCache(): ModelsCache | null {
+  if (!fs.existsSync(MODELS_CACHE_FILE)) return null;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(MODELS_CACHE_FILE, "utf-8"));
+  } catch {
+    raw = null;
+  }
+
+  // Written by a newer version of this extension: don't load it, but leave it in place
+  if (typeof raw?.version === "number" && raw.version > MODELS_CACHE_VERSION) return null;
+
+  const cache = migrateModelsCache(raw);
+  if (!cache) {
+    // Move the unreadable cache aside so it is neither loaded nor retried on every start
+    try {
+      fs.renameSync(MODELS_CACHE_FILE, `${MODELS_CACHE_FILE}.corrupt`);
+    } catch {
+      // Ignore cache cleanup errors
+    }
+  }
+  return cache;
+}
+
+function writeModelsCache(cache: ModelsCache): void {
+  try {
+    fs.mkdirSync(path.dirname(MODELS_CACHE_FILE), { recursive: true });
+    // Write atomically so a concurrent Pi instance never reads a partial file
+    const tmpFile = `${MODELS_CACHE_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(cache));
+    fs.renameSync(tmpFile, MODELS_CACHE_FILE);
+  } catch {
+    // Ignore cache save errors
+  }
+}
+
 // Last known models (for comparison)
 let lastKnownModels: any[] = [];
 
+// Timestamp of the last successful model fetch (from cache or refresh)
+let lastModelsTimestamp: number | null = null;
+
 // Track selected provider to limit context shaping to Cline
 let selectedProvider: string | null = null;
 
+// Pi's credential store and UI, captured at session start for 401 retries and account rotation
+let clineAuthStorage: AuthStorage | null = null;
+let clineUi: ExtensionContext["ui"] | null = null;
+
 function isLikelyClineProvider(ctx: any): boolean {
   const provider = (ctx as any)?.model?.provider;
   if (provider === "cline") return true;
@@ -545,25 +1435,45 @@ function isLikelyClineProvider(ctx: any): boolean {
   return false;
 }
 
-// Cline request scaffold (prefer extracted template from local debug capture if available)
-let clineScaffold: ClineScaffold = {
-  taskProgress: FALLBACK_TASK_PROGRESS_BLOCK,
-  environmentDetails: buildFallbackEnvironmentDetails(),
-};
+// Plan/Act mode of the current session, restored from the "cline-mode" entries on the active branch
+let clineMode: ClineMode = "act";
 
-const scaffoldFromCapture = loadScaffoldFromDebugCapture();
-if (scaffoldFromCapture) {
-  clineScaffold = scaffoldFromCapture;
+function restoreClineMode(ctx: ExtensionContext): ClineMode {
+  const entries: any[] = ctx.sessionManager.getBranch();
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry?.type === "custom" && entry.customType === "cline-mode" && (entry.data?.mode === "plan" || entry.data?.mode === "act")) {
+      return entry.data.mode;
+    }
+  }
+  return "act";
 }
 
-// Load cached models if exists
-try {
-  if (fs.existsSync(MODELS_CACHE_FILE)) {
-    const cache = JSON.parse(fs.readFileSync(MODELS_CACHE_FILE, "utf-8"));
-    lastKnownModels = cache.models || [];
+function updateClineModeStatus(ctx: ExtensionContext): void {
+  ctx.ui.setStatus("cline-mode", clineMode === "plan" ? "Cline: plan mode" : undefined);
+}
+
+// When the context hook last shaped a request (reported by /cline-doctor)
+let lastContextHookAt: number | null = null;
+
+// task_progress blocks found in local Cline debug captures, per mode; the built-in
+// blocks are used for modes without one
+let capturedScaffolds: Partial<Record<ClineMode, ClineScaffold>> = loadCapturedScaffolds();
+
+function loadCapturedScaffolds(): Partial<Record<ClineMode, ClineScaffold>> {
+  const scaffolds: Partial<Record<ClineMode, ClineScaffold>> = {};
+  for (const mode of ["plan", "act"] as const) {
+    const scaffold = loadScaffoldFromDebugCapture(mode);
+    if (scaffold) scaffolds[mode] = scaffold;
   }
-} catch {
-  // Ignore cache load errors
+  return scaffolds;
+}
+
+// Load cached models if exists
+const initialModelsCache = loadModelsCache();
+if (initialModelsCache) {
+  lastKnownModels = initialModelsCache.models;
+  lastModelsTimestamp = initialModelsCache.timestamp;
 }
 
 export default function (pi: ExtensionAPI) {
@@ -581,208 +1491,2655 @@ export default function (pi: ExtensionAPI) {
   pi.on("context", async (event, ctx) => {
     if (!isLikelyClineProvider(ctx)) return;
     selectedProvider = "cline";
+    lastContextHookAt = Date.now();
 
     const sourceMessages = Array.isArray(event.messages) ? event.messages : [];
-    const messages = collapseContextMessagesForCline(sourceMessages, clineScaffold);
 
-    return { messages };
-  });
+    // environment_details is rebuilt for every request (cwd, files, time, context usage)
+    const contextWindow = ctx.model?.contextWindow || clineConfig.defaultContextWindow;
+    const environmentDetails = await buildEnvironmentDetails({
+      cwd: ctx.cwd,
+      contextWindow,
+      usedTokens: estimateContextTokens(sourceMessages),
+      mode: clineMode,
+    });
+    const taskProgress = capturedScaffolds[clineMode]?.taskProgress ?? TASK_PROGRESS_BLOCKS[clineMode].fallback;
+    const budget = {
+      contextWindow,
+      maxTokens: ctx.model?.maxTokens || clineConfig.defaultMaxTokens,
+      systemPromptTokens: estimateTextTokens(ctx.getSystemPrompt()),
+    };
+    const strategy = resolveContextStrategy(ctx.model?.id);
+    const messages = shapeContextMessagesForCline(sourceMessages, { taskProgress, environmentDetails }, budget, strategy);
+
+    return { messages };
+  });
+
+  // Switch to another free model when the current one is withdrawn or keeps failing,
+  // and turn known Cline errors into actionable messages
+  pi.on("message_end", async (event, ctx) => {
+    const message: any = event.message;
+    if (message?.role !== "assistant" || message.provider !== "cline") return;
+    const switched = await handleModelFailure(pi, ctx, message);
+
+    // Explain known Cline errors unless the fallback already dealt with them
+    if (!switched && message.stopReason === "error") {
+      notifyClineErrorHint(ctx, message.errorMessage || "");
+    }
+  });
+
+  // Refresh headers (especially X-Task-ID) for every prompt
+  pi.on("before_agent_start", async (_event, ctx) => {
+    if (isLikelyClineProvider(ctx)) {
+      selectedProvider = "cline";
+    } else {
+      selectedProvider = (ctx as any)?.model?.provider || selectedProvider;
+    }
+    registerClineProvider(pi, lastKnownModels);
+  });
+
+  // Non-blocking model refresh on session start
+  pi.on("session_start", async (_event, ctx) => {
+    if (isLikelyClineProvider(ctx)) {
+      selectedProvider = "cline";
+    }
+
+    clineAuthStorage = ctx.modelRegistry.authStorage;
+    clineUi = ctx.ui;
+    clineMode = restoreClineMode(ctx);
+    updateClineModeStatus(ctx);
+    hookClineLogout(clineAuthStorage);
+    updateClineAccountStatus(ctx);
+
+    // Pick up config changes and the project-level override for this session's cwd
+    const { warnings } = reloadClineConfig(ctx.cwd);
+    if (warnings.length > 0) {
+      ctx.ui.notify(`Cline: Ignored invalid settings (see /cline-config):\n${warnings.join("\n")}`, "warning");
+    }
+
+    // Refresh provider identity at session boundary as well
+    registerClineProvider(pi, lastKnownModels);
+
+    // Reload scaffolds from local captures if available
+    capturedScaffolds = loadCapturedScaffolds();
+
+    // The persisted model may have been withdrawn since the last session
+    const current = ctx.model;
+    if (current?.provider === "cline" && lastKnownModels.length > 0 && !lastKnownModels.some(model => model.id === current.id)) {
+      const suggestion = rankFallbackModels(current, lastKnownModels, failedModelIds)[0];
+      ctx.ui.notify(
+        `Cline: ${current.id} is no longer in the free model list.` +
+        (suggestion ? ` Switch with /model (e.g. ${suggestion.id}).` : " Switch with /model."),
+        "warning",
+      );
+    }
+
+    // Run in background to avoid blocking Pi's startup/UI sequence
+    refreshModels(pi, ctx).catch(error => {
+      console.error("[Cline] Failed to update models:", error);
+    });
+  });
+
+  pi.registerCommand("cline-config", {
+    description: "Show effective Cline extension settings and where each value comes from",
+    handler: async (_args, ctx) => {
+      ctx.ui.notify(formatConfigReport(reloadClineConfig(ctx.cwd)), "info");
+    },
+  });
+
+  // Moving to another point in the session tree may change the mode in effect
+  pi.on("session_tree", async (_event, ctx) => {
+    clineMode = restoreClineMode(ctx);
+    updateClineModeStatus(ctx);
+  });
+
+  pi.registerCommand("cline-mode", {
+    description: "Show or set the Cline Plan/Act mode for this session (usage: /cline-mode [plan|act])",
+    getArgumentCompletions: (prefix) => {
+      const items = ["plan", "act"].filter(item => item.startsWith(prefix.trim()));
+      return items.length > 0 ? items.map(item => ({ value: item, label: item })) : null;
+    },
+    handler: async (args, ctx) => {
+      const mode = args.trim().toLowerCase();
+      if (!mode) {
+        ctx.ui.notify(`Cline: ${clineMode.toUpperCase()} mode (switch with /cline-mode plan|act)`, "info");
+        return;
+      }
+      if (mode !== "plan" && mode !== "act") {
+        ctx.ui.notify(`Cline: Unknown mode "${mode}". Usage: /cline-mode [plan|act]`, "warning");
+        return;
+      }
+
+      clineMode = mode;
+      pi.appendEntry("cline-mode", { mode });
+      updateClineModeStatus(ctx);
+      ctx.ui.notify(`Cline: Switched to ${mode.toUpperCase()} mode`, "info");
+    },
+  });
+
+  pi.registerCommand("cline-compact", {
+    description: "Compact the session and restart the Cline transcript from the summary (usage: /cline-compact [instructions])",
+    handler: async (args, ctx) => {
+      ctx.ui.notify("Cline: Compacting session...", "info");
+      ctx.compact({
+        customInstructions: args.trim() || undefined,
+        onComplete: (result) => {
+          ctx.ui.notify(
+            `Cline: Session compacted (${result.tokensBefore.toLocaleString("en-US")} tokens before). The Cline transcript restarts from the summary.`,
+            "info",
+          );
+        },
+        onError: (error) => {
+          ctx.ui.notify(`Cline: Compaction failed: ${error.message}`, "error");
+        },
+      });
+    },
+  });
+
+  pi.registerCommand("cline-doctor", {
+    description: "Check Cline login, configuration, callback ports, scaffold, model cache and connectivity",
+    handler: async (_args, ctx) => {
+      ctx.ui.notify("Cline: Running diagnostics...", "info");
+      const checks = await runClineDoctor(ctx);
+      const level = checks.some(c => c.status === "fail") ? "error" : checks.some(c => c.status === "warn") ? "warning" : "info";
+      ctx.ui.notify(formatDoctorReport(checks), level);
+    },
+  });
+
+  pi.registerCommand("cline-import-auth", {
+    description: "Import a Cline login from a file or the Cline CLI config (usage: /cline-import-auth [path])",
+    handler: async (args, ctx) => {
+      try {
+        const { file, credentials } = await importClineCredentials(args.trim(), ctx.cwd);
+        ctx.modelRegistry.authStorage.set("cline", { type: "oauth", ...credentials });
+        registerClineProvider(pi, lastKnownModels);
+        ctx.ui.notify(
+          `Cline: Imported login from ${file} (token valid until ${new Date(credentials.tokenExpires as number).toLocaleString()}).\n` +
+          "If Cline rotated the refresh token, the source app may ask you to log in again.",
+          "info",
+        );
+      } catch (error) {
+        ctx.ui.notify(`Cline: Import failed: ${error instanceof Error ? error.message : String(error)}`, "error");
+      }
+    },
+  });
+
+  pi.registerCommand("cline-account", {
+    description: "Show the signed-in Cline account, or manage named accounts: list | add <name> | use <name> | remove <name>",
+    getArgumentCompletions: (prefix) => {
+      const [subcommand, ...rest] = prefix.trimStart().split(/\s+/);
+      if (rest.length === 0) {
+        const items = ["info", "list", "add", "use", "remove"].filter(item => item.startsWith(subcommand));
+        return items.length > 0 ? items.map(item => ({ value: item, label: item })) : null;
+      }
+      if (subcommand !== "use" && subcommand !== "remove") return null;
+      const names = Object.keys(loadClineAccounts()).filter(name => name.startsWith(rest.join(" ")));
+      return names.length > 0 ? names.map(name => ({ value: `${subcommand} ${name}`, label: name })) : null;
+    },
+    handler: async (args, ctx) => {
+      const [subcommand = "info", ...rest] = args.trim().split(/\s+/).filter(Boolean);
+      const name = rest.join(" ");
+      const storage = ctx.modelRegistry.authStorage;
+
+      try {
+        if (subcommand === "info") {
+          ctx.ui.notify(await formatClineAccountInfo(storage), "info");
+          return;
+        }
+        if (subcommand === "list") {
+          ctx.ui.notify(formatClineAccounts(storage), "info");
+          return;
+        }
+        if (!["add", "use", "remove"].includes(subcommand)) {
+          ctx.ui.notify(`Cline: Unknown subcommand "${subcommand}". Usage: /cline-account [info|list|add|use|remove] <name>`, "warning");
+          return;
+        }
+        if (!name) {
+          ctx.ui.notify(`Cline: Missing account name. Usage: /cline-account ${subcommand} <name>`, "warning");
+          return;
+        }
+
+        if (subcommand === "add") {
+          saveClineAccount(storage, name);
+          ctx.ui.notify(`Cline: Saved the current login as "${name}"`, "info");
+        } else if (subcommand === "use") {
+          await useClineAccount(storage, name);
+          ctx.ui.notify(`Cline: Switched to account "${name}"`, "info");
+        } else {
+          removeClineAccount(storage, name);
+          ctx.ui.notify(`Cline: Removed account "${name}"`, "info");
+        }
+        updateClineAccountStatus(ctx);
+      } catch (error) {
+        ctx.ui.notify(`Cline: ${error instanceof Error ? error.message : String(error)}`, "error");
+      }
+    },
+  });
+
+  pi.registerCommand("cline-models", {
+    description: "List Cline models with metadata and cache freshness (use 'refresh' to re-fetch)",
+    getArgumentCompletions: (prefix) => {
+      return "refresh".startsWith(prefix.trim()) ? [{ value: "refresh", label: "refresh" }] : null;
+    },
+    handler: async (args, ctx) => {
+      const subcommand = args.trim();
+
+      if (subcommand === "refresh") {
+        ctx.ui.notify("Cline: Refreshing model list...", "info");
+        try {
+          await refreshModels(pi, ctx, { force: true, reportUnchanged: true });
+        } catch (error) {
+          ctx.ui.notify(`Cline: Failed to update models: ${error instanceof Error ? error.message : String(error)}`, "error");
+          return;
+        }
+      } else if (subcommand) {
+        ctx.ui.notify(`Cline: Unknown subcommand "${subcommand}". Usage: /cline-models [refresh]`, "warning");
+        return;
+      }
+
+      ctx.ui.notify(
+        formatModelsReport(lastKnownModels, lastModelsTimestamp, lastSourceReports, modelsRefreshInFlight !== null),
+        "info",
+      );
+    },
+  });
+}
+
+// Running model revalidation, shared by concurrent refresh requests
+let modelsRefreshInFlight: Promise<void> | null = null;
+
+// Refresh the model list unless the cache is still within its TTL (or `force` is set).
+// Shared by the session_start background refresh and `/cline-models refresh`.
+// The cached list keeps being served while revalidation runs.
+function refreshModels(
+  pi: ExtensionAPI,
+  ctx: ExtensionContext,
+  options: { force?: boolean; reportUnchanged?: boolean } = {},
+): Promise<void> {
+  if (modelsRefreshInFlight) return modelsRefreshInFlight;
+
+  if (isOfflineMode()) {
+    modelsRefreshInFlight = loadPinnedModels(pi, ctx).finally(() => {
+      modelsRefreshInFlight = null;
+    });
+    return modelsRefreshInFlight;
+  }
+
+  const isFresh =
+    lastKnownModels.length > 0 &&
+    lastModelsTimestamp !== null &&
+    Date.now() - lastModelsTimestamp < modelsCacheTtlMs();
+
+  if (isFresh && !options.force) {
+    if (options.reportUnchanged) {
+      ctx.ui.notify(`Cline: Model list is fresh (${lastKnownModels.length} models)`, "info");
+    }
+    return Promise.resolve();
+  }
+
+  modelsRefreshInFlight = revalidateModels(pi, ctx, options).finally(() => {
+    modelsRefreshInFlight = null;
+  });
+  return modelsRefreshInFlight;
+}
+
+// Offline mode: register the pinned (or cached) model list without any network requests.
+// The cache is left untouched so its timestamp keeps reflecting the last real refresh.
+async function loadPinnedModels(pi: ExtensionAPI, ctx: ExtensionContext): Promise<void> {
+  const { models, reports } = await fetchModels(createPinnedModelSources(), null, { offline: true });
+  lastSourceReports = reports;
+
+  if (models.length === 0) {
+    ctx.ui.setStatus("cline-models", undefined);
+    ctx.ui.notify(
+      "Cline: Offline mode is on, but no pinned model file or model cache is available. Set PI_CLINE_PINNED_MODELS.",
+      "warning",
+    );
+    return;
+  }
+
+  const newModelIds = models.map(m => m.id);
+  const lastKnownIds = lastKnownModels.map(m => m.id);
+  if (newModelIds.length !== lastKnownIds.length || !newModelIds.every(id => lastKnownIds.includes(id))) {
+    registerClineProvider(pi, models);
+  }
+  lastKnownModels = models;
+
+  ctx.ui.setStatus("cline-models", "Cline: pinned models");
+  ctx.ui.notify(`Cline: Offline mode, using ${describePinnedCatalog(models)}. The list may be stale.`, "info");
+}
+
+function describePinnedCatalog(models: any[]): string {
+  const pinnedFile = resolvePinnedModelsFile();
+  if (models.some((m: any) => m.catalogSource === "pinned") && pinnedFile) {
+    let age = "";
+    try {
+      age = `, modified ${formatAge(Date.now() - fs.statSync(pinnedFile).mtimeMs)} ago`;
+    } catch {
+      // Ignore stat errors
+    }
+    return `pinned model list ${pinnedFile} (${models.length} models${age})`;
+  }
+  const age = lastModelsTimestamp !== null ? `, updated ${formatAge(Date.now() - lastModelsTimestamp)} ago` : "";
+  return `cached model list (${models.length} models${age})`;
+}
+
+// Fetch the latest model list with conditional requests, re-register the provider and persist the cache
+async function revalidateModels(
+  pi: ExtensionAPI,
+  ctx: ExtensionContext,
+  options: { reportUnchanged?: boolean },
+): Promise<void> {
+  const cache = loadModelsCache();
+  const { models, reports, fromFallback, sources, openRouter } = await fetchModels(undefined, cache);
+  lastSourceReports = reports;
+
+  if (models.length === 0) {
+    ctx.ui.notify("Cline: No free models available. Check network or Cline status.", "warning");
+    return;
+  }
+
+  // Live sources failed; the cached list is already registered, so keep it and its timestamp
+  if (fromFallback) {
+    ctx.ui.notify(`Cline: Model sources unreachable, using cached model list (${models.length} models)`, "warning");
+    return;
+  }
+
+  // Check if models changed by comparing IDs
+  const newModelIds = models.map(m => m.id);
+  const lastKnownIds = lastKnownModels.map(m => m.id);
+  const hasChanged =
+    newModelIds.length !== lastKnownIds.length ||
+    !newModelIds.every(id => lastKnownIds.includes(id));
+
+  if (hasChanged) {
+    registerClineProvider(pi, models);
+  }
+
+  // Save to cache (also on unchanged lists, so the timestamp reflects the last successful fetch).
+  // Validators of sources that failed this time are kept for the next conditional request.
+  lastModelsTimestamp = Date.now();
+  writeModelsCache({
+    version: MODELS_CACHE_VERSION,
+    timestamp: lastModelsTimestamp,
+    models,
+    sources: { ...cache?.sources, ...sources },
+    openRouter: openRouter ?? cache?.openRouter,
+  });
+
+  // Determine what changed for better messaging
+  const added = newModelIds.filter(id => !lastKnownIds.includes(id));
+  const removed = lastKnownIds.filter(id => !newModelIds.includes(id));
+
+  if (!hasChanged) {
+    if (options.reportUnchanged) {
+      ctx.ui.notify(`Cline: Model list is up to date (${models.length} models)`, "info");
+    }
+  } else if (lastKnownModels.length === 0) {
+    // First time - just mention count
+    ctx.ui.notify(`Cline: ${models.length} models available`, "info");
+  } else if (added.length > 0 && removed.length > 0) {
+    ctx.ui.notify(`Cline: ${added.length} new, ${removed.length} removed (${models.length} total)`, "info");
+  } else if (added.length > 0) {
+    ctx.ui.notify(`Cline: ${added.length} new models added (${models.length} total)`, "info");
+  } else if (removed.length > 0) {
+    ctx.ui.notify(`Cline: ${removed.length} models removed (${models.length} total)`, "info");
+  }
+
+  lastKnownModels = models;
+
+  // The session's model was withdrawn from the free list
+  const current = ctx.model;
+  if (current?.provider === "cline" && removed.includes(current.id) && clineConfig.autoFallback) {
+    await switchToFallbackModel(pi, ctx, current, "was removed from the free model list");
+  }
+}
+
+// Replacement candidates for a withdrawn or failing model: the configured fallbackModels
+// first (in order), then the other models ranked by capability similarity - same
+// reasoning/vision flags, then the closest context window
+function rankFallbackModels(current: any, models: any[], exclude: Set<string>): any[] {
+  const candidates = models.filter(model => model.id !== current.id && !exclude.has(model.id));
+  const preferred = (clineConfig.fallbackModels || [])
+    .map(id => candidates.find(model => model.id === id))
+    .filter(Boolean);
+
+  const hasVision = (model: any) => Array.isArray(model.input) && model.input.includes("image");
+  const distance = (model: any) => {
+    const flagMismatches = Number(!!model.reasoning !== !!current.reasoning) + Number(hasVision(model) !== hasVision(current));
+    const contextRatio = Math.abs(Math.log((model.contextWindow || 1) / (current.contextWindow || 1)));
+    return flagMismatches * 100 + contextRatio;
+  };
+  const ranked = candidates
+    .filter(model => !preferred.includes(model))
+    .sort((a, b) => distance(a) - distance(b));
+
+  return [...preferred, ...ranked];
+}
+
+// Models that failed in this session are not picked again as fallbacks
+const failedModelIds = new Set<string>();
+
+async function switchToFallbackModel(pi: ExtensionAPI, ctx: ExtensionContext, current: any, reason: string): Promise<boolean> {
+  failedModelIds.add(current.id);
+  for (const candidate of rankFallbackModels(current, lastKnownModels, failedModelIds)) {
+    const model = ctx.modelRegistry.find("cline", candidate.id);
+    if (model && await pi.setModel(model)) {
+      ctx.ui.notify(`Cline: ${current.id} ${reason}. Switched to ${candidate.id}.`, "warning");
+      return true;
+    }
+  }
+  ctx.ui.notify(`Cline: ${current.id} ${reason}, and no other free model is available. Pick one with /model.`, "error");
+  return false;
+}
+
+// A 403 that names the model, as opposed to a bare 403 (usually auth or client headers)
+const MODEL_REFUSED_PATTERN = /^403\b.*(model.{0,40}(not allowed|forbidden|restricted|not permitted|no access)|(not allowed|no access|not permitted).{0,40}model)/is;
+
+// Errors that mean the model itself is unusable (as opposed to auth or rate limits)
+function classifyModelFailure(errorMessage: string): "withdrawn" | "forbidden" | "server" | null {
+  if (/model.{0,40}(not found|not available|unavailable|does not exist|no longer|not supported)/i.test(errorMessage) || /^404\b/.test(errorMessage)) {
+    return "withdrawn";
+  }
+  if (MODEL_REFUSED_PATTERN.test(errorMessage)) return "forbidden";
+  if (/^5\d\d\b/.test(errorMessage)) return "server";
+  return null;
+}
+
+// Consecutive 5xx responses per model before falling back
+const FALLBACK_SERVER_ERROR_THRESHOLD = 3;
+const serverErrorCounts = new Map<string, number>();
+
+// Fall back when a completion failed because the model is gone, refused for this model
+// or keeps failing.
+// Returns true if the session switched to another model.
+async function handleModelFailure(pi: ExtensionAPI, ctx: ExtensionContext, message: any): Promise<boolean> {
+  const current = ctx.model;
+  if (!current || current.provider !== "cline" || message.model !== current.id) return false;
+
+  if (message.stopReason !== "error") {
+    serverErrorCounts.delete(current.id);
+    return false;
+  }
+  if (!clineConfig.autoFallback) return false;
+
+  const failure = classifyModelFailure(message.errorMessage || "");
+  if (failure === "withdrawn") {
+    return switchToFallbackModel(pi, ctx, current, "is no longer available");
+  }
+  if (failure === "forbidden") {
+    return switchToFallbackModel(pi, ctx, current, "was refused by Cline (403)");
+  }
+  if (failure === "server") {
+    const count = (serverErrorCounts.get(current.id) || 0) + 1;
+    serverErrorCounts.set(current.id, count);
+    if (count >= FALLBACK_SERVER_ERROR_THRESHOLD) {
+      serverErrorCounts.delete(current.id);
+      return switchToFallbackModel(pi, ctx, current, `failed ${count} times in a row with server errors`);
+    }
+  }
+  return false;
+}
+
+// Known Cline API errors and what to do about them (first match wins)
+const CLINE_ERROR_HINTS: Array<{ pattern: RegExp; hint: string }> = [
+  {
+    pattern: /^401\b|token (has )?expired|invalid token|unauthori[sz]ed/i,
+    hint: "Your Cline login has expired or was revoked. Run /login and select Cline.",
+  },
+  {
+    pattern: /^402\b|insufficient (credits|balance|funds)|out of credits|payment required/i,
+    hint: "Your Cline account is out of credits. Pick a free model with /model, or add credits in your Cline account (see /cline-account).",
+  },
+  {
+    pattern: /messages\.\d+.{0,40}content.{0,40}(empty|non-empty)|content is empty/i,
+    hint: "Cline rejected a message with empty content. Run /reload to pick up the latest extension version; if it persists, start a new session or run /compact.",
+  },
+  {
+    pattern: /model.{0,40}(not found|not available|unavailable|does not exist|no longer|not supported)|^404\b/i,
+    hint: "This model is no longer offered by Cline. Run /cline-models refresh and pick another model with /model.",
+  },
+  {
+    pattern: MODEL_REFUSED_PATTERN,
+    hint: "Cline does not allow this model for your account. Pick another model with /model.",
+  },
+  {
+    pattern: /^403\b/,
+    hint: "Cline refused the request (403). Run /reload to refresh the client headers; if it persists, run /logout (Cline) and /login again.",
+  },
+  {
+    pattern: /^429\b|rate.?limit|quota/i,
+    hint: "Cline is rate limiting this model. Wait a moment, pick another free model with /model, or add accounts and enable rotateAccounts (see /cline-account).",
+  },
+];
+
+function getClineErrorHint(errorMessage: string): string | null {
+  return CLINE_ERROR_HINTS.find(({ pattern }) => pattern.test(errorMessage))?.hint ?? null;
+}
+
+// Agent-level retries repeat the same error; show each hint once per minute
+let lastErrorHint: { hint: string; at: number } | null = null;
+
+function notifyClineErrorHint(ctx: ExtensionContext, errorMessage: string): void {
+  const hint = getClineErrorHint(errorMessage);
+  if (!hint) return;
+  if (lastErrorHint?.hint === hint && Date.now() - lastErrorHint.at < 60 * 1000) return;
+  lastErrorHint = { hint, at: Date.now() };
+  ctx.ui.notify(`Cline: ${hint}`, "warning");
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+function formatTokenCount(count: number): string {
+  if (count >= 1000000) return `${+(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${Math.round(count / 1000)}k`;
+  return String(count);
+}
+
+function formatSourceReports(reports: ModelSourceReport[]): string {
+  if (reports.length === 0) return "Sources: not queried in this session";
+  const parts = reports.map(r => {
+    if (r.status === "ok") return `${r.name} ok (${r.count}${r.notModified ? ", not modified" : ""})`;
+    return `${r.name} ${r.status}${r.error ? `: ${r.error}` : ""}`;
+  });
+  return `Sources: ${parts.join("; ")}`;
+}
+
+function formatModelsReport(
+  models: any[],
+  timestamp: number | null,
+  reports: ModelSourceReport[],
+  revalidating: boolean,
+): string {
+  const age = timestamp !== null ? Date.now() - timestamp : null;
+  let freshness = age !== null
+    ? `cache updated ${formatAge(age)} ago (${new Date(timestamp!).toLocaleString()})` +
+      `${age >= modelsCacheTtlMs() ? ", stale" : ""}`
+    : "no cache timestamp (models not fetched yet)";
+  if (revalidating) freshness += ", revalidating in background";
+  if (isOfflineMode()) {
+    freshness += `\nOffline mode: using ${describePinnedCatalog(models)}; no network requests are made and the list may be stale`;
+  }
+
+  if (models.length === 0) {
+    return `Cline: No models known yet, ${freshness}. Run /cline-models refresh or /login first.\n${formatSourceReports(reports)}`;
+  }
+
+  const lines = models.map((m: any) => {
+    const flags = [
+      m.reasoning ? "reasoning" : null,
+      Array.isArray(m.input) && m.input.includes("image") ? "vision" : null,
+    ].filter(Boolean);
+    // Models cached before metadata sources were tracked have no marker
+    const source = m.metadataSource === "openrouter"
+      ? "OpenRouter"
+      : m.metadataSource === "catalog"
+        ? "catalog source"
+        : m.metadataSource === "defaults"
+          ? "defaults (no OpenRouter match)"
+          : "unknown";
+
+    return [
+      `- ${m.id} — ${m.name || m.id}`,
+      `    context ${formatTokenCount(m.contextWindow || 0)}, max tokens ${formatTokenCount(m.maxTokens || 0)}` +
+        `${flags.length > 0 ? `, ${flags.join(", ")}` : ""}`,
+      `    listed by: ${m.catalogSource || "unknown"}, metadata: ${source}`,
+      m.promo || m.freeUntil
+        ? `    ${[m.promo, m.freeUntil ? `free until ${m.freeUntil}` : null].filter(Boolean).join(", ")}`
+        : null,
+      m.description ? `    ${m.description}` : null,
+    ].filter(Boolean).join("\n");
+  });
+
+  return `Cline: ${models.length} models, ${freshness}\n${formatSourceReports(reports)}\n${lines.join("\n")}`;
+}
+
+// Helper to fetch with timeout
+async function fetchWithTimeout(url: string, timeoutMs: number = 8000, init: RequestInit = {}): Promise<Response | null> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    clearTimeout(timeout);
+    return response;
+  } catch (e) {
+    return null;
+  }
+}
+
+// A model catalog entry as reported by a source. Only `id` is required; any
+// metadata present takes priority over OpenRouter lookups and defaults.
+type CatalogEntry = {
+  id: string;
+  name?: string;
+  contextWindow?: number;
+  maxTokens?: number;
+  reasoning?: boolean;
+  input?: string[];
+  description?: string;
+  // Free-tier end date and promo label, when the source provides them
+  freeUntil?: string;
+  promo?: string;
+};
+
+type SourceLoadResult = {
+  entries: CatalogEntry[];
+  etag?: string;
+  lastModified?: string;
+  // The server answered 304 and `entries` were reused from the cache
+  notModified?: boolean;
+};
+
+type ModelSource = {
+  name: string;
+  // Fallback sources are only consulted when no primary source returned models
+  fallback?: boolean;
+  // Returns null when the source is not configured. `previous` holds the
+  // cached validators and entries from the last successful load.
+  load(previous?: SourceCacheRecord): Promise<SourceLoadResult | null>;
+};
+
+type ModelSourceReport = {
+  name: string;
+  status: "ok" | "failed" | "skipped";
+  count: number;
+  fallback: boolean;
+  notModified?: boolean;
+  error?: string;
+};
+
+type ModelCatalog = {
+  models: any[];
+  reports: ModelSourceReport[];
+  // True when every model came from a fallback source (e.g. the on-disk cache)
+  fromFallback: boolean;
+  // Cache records for primary sources that loaded successfully
+  sources: Record<string, SourceCacheRecord>;
+  openRouter?: OpenRouterCacheRecord;
+};
+
+const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+
+const GITHUB_FREE_MODELS_URL = "https://raw.githubusercontent.com/cline/cline/main/webview-ui/src/components/settings/OpenRouterModelPicker.tsx";
+
+// Last model source reports (for /cline-models)
+let lastSourceReports: ModelSourceReport[] = [];
+
+function toPositiveNumber(value: any): number | undefined {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function pickString(...values: any[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function pickBoolean(...values: any[]): boolean | undefined {
+  return values.find((value: any) => typeof value === "boolean");
+}
+
+function parseCatalogItem(item: any): CatalogEntry | null {
+  if (typeof item === "string") {
+    return item.trim() ? { id: item.trim() } : null;
+  }
+  if (!item || typeof item !== "object" || typeof item.id !== "string" || !item.id.trim()) {
+    return null;
+  }
+
+  const entry: CatalogEntry = { id: item.id.trim() };
+
+  const name = pickString(item.name, item.displayName, item.label);
+  if (name) entry.name = name;
+
+  const description = pickString(item.description);
+  if (description) entry.description = description;
+
+  const contextWindow = toPositiveNumber(
+    item.contextWindow ?? item.context_window ?? item.context_length ?? item.info?.contextWindow,
+  );
+  if (contextWindow) entry.contextWindow = contextWindow;
+
+  const maxTokens = toPositiveNumber(
+    item.maxTokens ?? item.max_tokens ?? item.top_provider?.max_completion_tokens ?? item.info?.maxTokens,
+  );
+  if (maxTokens) entry.maxTokens = maxTokens;
+
+  const reasoning = pickBoolean(item.reasoning, item.supportsReasoning, item.info?.supportsReasoning);
+  if (reasoning !== undefined) entry.reasoning = reasoning;
+
+  const supportsImages = pickBoolean(
+    item.supportsImages,
+    item.supports_images,
+    item.supportsVision,
+    item.info?.supportsImages,
+  );
+  if (Array.isArray(item.input)) {
+    entry.input = item.input.filter((i: any) => i === "text" || i === "image");
+  } else if (supportsImages !== undefined) {
+    entry.input = supportsImages ? ["text", "image"] : ["text"];
+  }
+
+  const freeUntil = pickString(item.freeUntil, item.free_until, item.expiresAt, item.endDate, item.until);
+  if (freeUntil) entry.freeUntil = freeUntil;
+
+  const promo = pickString(item.promo, item.promotion, item.badge, item.tag);
+  if (promo) entry.promo = promo;
+
+  return entry;
+}
+
+// Accepts a plain array, `{ models: [...] }` or an OpenRouter-style `{ data: [...] }`
+function parseCatalogJson(data: any): CatalogEntry[] {
+  const items = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.models)
+      ? data.models
+      : Array.isArray(data?.data)
+        ? data.data
+        : Array.isArray(data?.data?.models)
+          ? data.data.models
+          : null;
+
+  if (!items) {
+    throw new Error("Expected an array of models, { models: [...] } or { data: [...] }");
+  }
+
+  return items
+    .map((item: any) => parseCatalogItem(item))
+    .filter((entry: CatalogEntry | null): entry is CatalogEntry => !!entry);
+}
+
+function isFreeCatalogItem(item: any): boolean {
+  if (item?.free === true || item?.isFree === true) return true;
+  if (typeof item?.id === "string" && item.id.endsWith(":free")) return true;
+
+  const prompt = item?.pricing?.prompt;
+  const completion = item?.pricing?.completion;
+  if (prompt == null || completion == null) return false;
+  return parseFloat(prompt) === 0 && parseFloat(completion) === 0;
+}
+
+// Minimal parser for the JS/TS literal subset used in Cline's model lists:
+// objects, arrays, strings, template strings without interpolations, numbers
+// (incl. `128_000` and simple arithmetic like `128 * 1024`), booleans, comments,
+// trailing commas and `as const`. Unresolvable references (identifiers, calls,
+// interpolated templates) and values outside this subset (ternaries, arrow
+// functions, ...) become undefined.
+function parseJsLiteral(source: string, startIndex: number): { value: any; end: number } {
+  let i = startIndex;
+
+  const fail = (message: string): never => {
+    const line = source.slice(0, i).split("\n").length;
+    throw new Error(`${message} at line ${line}`);
+  };
+
+  const skipTrivia = () => {
+    while (i < source.length) {
+      const ch = source[i];
+      if (/\s/.test(ch)) {
+        i++;
+      } else if (source.startsWith("//", i)) {
+        const next = source.indexOf("\n", i);
+        i = next === -1 ? source.length : next + 1;
+      } else if (source.startsWith("/*", i)) {
+        const next = source.indexOf("*/", i + 2);
+        if (next === -1) fail("Unterminated comment");
+        i = next + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readIdentifier = (): string => {
+    const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/);
+    if (!match) return "";
+    i += match[0].length;
+    return match[0];
+  };
+
+  const readEscape = (): string => {
+    const ch = source[i++];
+    switch (ch) {
+      case "n": return "\n";
+      case "t": return "\t";
+      case "r": return "\r";
+      case "b": return "\b";
+      case "f": return "\f";
+      case "v": return "\v";
+      case "0": return "\0";
+      case "\n": return "";
+      case "x": {
+        const hex = source.slice(i, i + 2);
+        i += 2;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      case "u": {
+        if (source[i] === "{") {
+          const close = source.indexOf("}", i);
+          const cp = parseInt(source.slice(i + 1, close), 16);
+          i = close + 1;
+          return String.fromCodePoint(cp);
+        }
+        const hex = source.slice(i, i + 4);
+        i += 4;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      default: return ch ?? "";
+    }
+  };
+
+  const parseString = (quote: string): string => {
+    i++;
+    let out = "";
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === "\\") {
+        i++;
+        out += readEscape();
+      } else if (source[i] === "\n") {
+        fail("Unterminated string");
+      } else {
+        out += source[i++];
+      }
+    }
+    if (i >= source.length) fail("Unterminated string");
+    i++;
+    return out;
+  };
+
+  // Interpolations cannot be resolved statically, so templates with them become undefined
+  const parseTemplate = (): string | undefined => {
+    i++;
+    let out = "";
+    let interpolated = false;
+    while (i < source.length && source[i] !== "`") {
+      if (source[i] === "\\") {
+        i++;
+        out += readEscape();
+      } else if (source.startsWith("${", i)) {
+        i += 2;
+        skipBalanced("{", "}");
+        interpolated = true;
+      } else {
+        out += source[i++];
+      }
+    }
+    if (i >= source.length) fail("Unterminated template string");
+    i++;
+    return interpolated ? undefined : out;
+  };
+
+  // Skip to the matching close bracket (opening bracket already consumed)
+  const skipBalanced = (open: string, close: string) => {
+    let depth = 1;
+    while (i < source.length && depth > 0) {
+      skipTrivia();
+      const ch = source[i];
+      if (ch === "'" || ch === '"') {
+        parseString(ch);
+      } else if (ch === "`") {
+        parseTemplate();
+      } else {
+        if (ch === open) depth++;
+        if (ch === close) depth--;
+        i++;
+      }
+    }
+    if (depth > 0) fail(`Unbalanced "${open}"`);
+  };
+
+  // Skip to the next delimiter at the current depth (e.g. "," or "}" after an object value)
+  const skipToDelimiter = (delimiters: string) => {
+    while (i < source.length) {
+      skipTrivia();
+      const ch = source[i];
+      if (ch === undefined || delimiters.includes(ch)) return;
+      if (ch === "'" || ch === '"') {
+        parseString(ch);
+      } else if (ch === "`") {
+        parseTemplate();
+      } else if (ch === "{" || ch === "[" || ch === "(") {
+        i++;
+        skipBalanced(ch, ch === "{" ? "}" : ch === "[" ? "]" : ")");
+      } else {
+        i++;
+      }
+    }
+  };
+
+  // A member of an object or array. An unsupported value only loses that member:
+  // it is skipped up to the next delimiter and becomes undefined.
+  const parseMember = (delimiters: string): any => {
+    const start = i;
+    try {
+      const value = parseExpression();
+      skipTrivia();
+      if (i < source.length && delimiters.includes(source[i])) return value;
+    } catch {
+      // Unsupported syntax; skipped below
+    }
+    i = start;
+    skipToDelimiter(delimiters);
+    return undefined;
+  };
+
+  // Skip a type annotation after `as` / `satisfies` (e.g. `as const`, `as Foo<Bar>[]`)
+  const skipType = () => {
+    while (i < source.length) {
+      skipTrivia();
+      const ch = source[i];
+      if (ch === "," || ch === "}" || ch === "]" || ch === ")" || ch === ";") return;
+      if (ch === "<") {
+        i++;
+        skipBalanced("<", ">");
+      } else if (ch === "[") {
+        i++;
+        skipBalanced("[", "]");
+      } else if (ch === "{") {
+        i++;
+        skipBalanced("{", "}");
+      } else if (ch === "(") {
+        i++;
+        skipBalanced("(", ")");
+      } else {
+        i++;
+      }
+    }
+  };
+
+  const parseObject = (): Record<string, any> => {
+    i++;
+    const obj: Record<string, any> = {};
+    for (;;) {
+      skipTrivia();
+      if (source[i] === "}") {
+        i++;
+        return obj;
+      }
+
+      if (source.startsWith("...", i)) {
+        i += 3;
+        const spread = parseMember(",}");
+        if (spread && typeof spread === "object" && !Array.isArray(spread)) Object.assign(obj, spread);
+      } else {
+        let key: string;
+        const ch = source[i];
+        if (ch === "'" || ch === '"') {
+          key = parseString(ch);
+        } else if (ch === "[") {
+          // Computed keys cannot be resolved
+          i++;
+          skipBalanced("[", "]");
+          key = "";
+        } else if (/[0-9]/.test(ch)) {
+          key = String(parseNumber());
+        } else {
+          key = readIdentifier();
+          if (!key) fail(`Unexpected "${ch}" in object`);
+        }
+
+        skipTrivia();
+        if (source[i] === ":") {
+          i++;
+          const value = parseMember(",}");
+          if (key) obj[key] = value;
+        } else if (source[i] === "(") {
+          // Method shorthand: skip parameters and body
+          i++;
+          skipBalanced("(", ")");
+          skipTrivia();
+          if (source[i] === "{") {
+            i++;
+            skipBalanced("{", "}");
+          }
+        } else if (key) {
+          // Shorthand property referencing a variable
+          obj[key] = undefined;
+        }
+      }
+
+      skipTrivia();
+      if (source[i] === ",") {
+        i++;
+      } else if (source[i] !== "}") {
+        fail(`Expected "," or "}" in object`);
+      }
+    }
+  };
+
+  const parseArray = (): any[] => {
+    i++;
+    const arr: any[] = [];
+    for (;;) {
+      skipTrivia();
+      if (source[i] === "]") {
+        i++;
+        return arr;
+      }
+      if (source[i] === ",") {
+        // Array hole
+        i++;
+        continue;
+      }
+
+      if (source.startsWith("...", i)) {
+        i += 3;
+        const spread = parseMember(",]");
+        if (Array.isArray(spread)) arr.push(...spread);
+      } else {
+        arr.push(parseMember(",]"));
+      }
+
+      skipTrivia();
+      if (source[i] === ",") {
+        i++;
+      } else if (source[i] !== "]") {
+        fail(`Expected "," or "]" in array`);
+      }
+    }
+  };
+
+  const parseNumber = (): number => {
+    const match = source.slice(i).match(/^(0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(\d[\d_]*)?\.?\d[\d_]*([eE][+-]?\d+)?)/);
+    if (!match) fail("Invalid number");
+    i += match![0].length;
+    return Number(match![0].replace(/_/g, ""));
+  };
+
+  const parseValue = (): any => {
+    skipTrivia();
+    const ch = source[i];
+    if (ch === undefined) fail("Unexpected end of input");
+    if (ch === "{") return parseObject();
+    if (ch === "[") return parseArray();
+    if (ch === "'" || ch === '"') return parseString(ch);
+    if (ch === "`") return parseTemplate();
+    if (ch === "(") {
+      i++;
+      const value = parseExpression();
+      skipTrivia();
+      if (source[i] !== ")") fail(`Expected ")"`);
+      i++;
+      return value;
+    }
+    if (ch === "-" || ch === "+") {
+      i++;
+      const value = parseValue();
+      return typeof value === "number" ? (ch === "-" ? -value : value) : undefined;
+    }
+    if (/[0-9.]/.test(ch)) return parseNumber();
+
+    let ident = readIdentifier();
+    if (!ident) fail(`Unexpected "${ch}"`);
+    if (ident === "true") return true;
+    if (ident === "false") return false;
+    if (ident === "null") return null;
+    if (ident === "undefined") return undefined;
+
+    if (ident === "new") {
+      // `new Date("2026-03-01")` -> first constructor argument
+      skipTrivia();
+      readIdentifier();
+      skipTrivia();
+      if (source[i] !== "(") return undefined;
+      i++;
+      skipTrivia();
+      if (source[i] === ")") {
+        i++;
+        return undefined;
+      }
+      const arg = parseExpression();
+      skipTrivia();
+      if (source[i] === ",") {
+        i++;
+        skipBalanced("(", ")");
+      } else {
+        i++;
+      }
+      return arg;
+    }
+
+    // Member access / calls on unresolved references
+    for (;;) {
+      skipTrivia();
+      if (source[i] === "." || source.startsWith("?.", i)) {
+        i += source[i] === "." ? 1 : 2;
+        ident += `.${readIdentifier()}`;
+      } else if (source[i] === "(") {
+        i++;
+        skipBalanced("(", ")");
+      } else if (source[i] === "[") {
+        i++;
+        skipBalanced("[", "]");
+      } else {
+        break;
+      }
+    }
+    return undefined;
+  };
+
+  const parseExpression = (): any => {
+    let value = parseValue();
+    for (;;) {
+      skipTrivia();
+      const ch = source[i];
+      if (ch === "!" && source[i + 1] !== "=") {
+        // Non-null assertion
+        i++;
+        continue;
+      }
+      if ((ch === "*" || ch === "/" || ch === "+" || ch === "-") && source[i + 1] !== "=") {
+        i++;
+        const right = parseValue();
+        if (typeof value === "number" && typeof right === "number") {
+          value = ch === "*" ? value * right : ch === "/" ? value / right : ch === "+" ? value + right : value - right;
+        } else if (ch === "+" && typeof value === "string" && typeof right === "string") {
+          value = value + right;
+        } else {
+          value = undefined;
+        }
+        continue;
+      }
+      if (/^(as|satisfies)\b/.test(source.slice(i))) {
+        i += source.startsWith("as", i) ? 2 : 9;
+        skipType();
+        continue;
+      }
+      return value;
+    }
+  };
+
+  const value = parseExpression();
+  return { value, end: i };
+}
+
+// Extract the full free model entries from Cline's OpenRouterModelPicker.tsx source
+function parseFreeModelsFromTsx(text: string): CatalogEntry[] {
+  // Allow an optional type annotation, e.g. `export const freeModels: FreeModel[] = [`
+  const declaration = text.match(/export\s+const\s+freeModels\b[^=]*=/);
+  if (!declaration || declaration.index === undefined) {
+    throw new Error("freeModels array not found");
+  }
+
+  const { value } = parseJsLiteral(text, declaration.index + declaration[0].length);
+  if (!Array.isArray(value)) {
+    throw new Error("freeModels is not an array literal");
+  }
+
+  return value
+    .map((item: any) => parseCatalogItem(item))
+    .filter((entry: CatalogEntry | null): entry is CatalogEntry => !!entry);
+}
+
+function buildConditionalHeaders(previous?: { etag?: string; lastModified?: string }): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (previous?.etag) headers["If-None-Match"] = previous.etag;
+  if (previous?.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+  return headers;
+}
+
+// Fetch a source with If-None-Match/If-Modified-Since; a 304 reuses the previous entries
+async function loadConditional(
+  sourceUrl: string,
+  timeoutMs: number,
+  previous: SourceCacheRecord | undefined,
+  parse: (text: string) => CatalogEntry[],
+): Promise<SourceLoadResult> {
+  const canRevalidate = !!previous && previous.entries.length > 0;
+  const response = await fetchWithTimeout(sourceUrl, timeoutMs, {
+    headers: canRevalidate ? buildConditionalHeaders(previous) : {},
+  });
+  if (!response) throw new Error("Network error or timeout");
+
+  if (response.status === 304 && canRevalidate) {
+    return { entries: previous!.entries, etag: previous!.etag, lastModified: previous!.lastModified, notModified: true };
+  }
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  return {
+    entries: parse(await response.text()),
+    etag: response.headers.get("ETag") || undefined,
+    lastModified: response.headers.get("Last-Modified") || undefined,
+  };
+}
+
+function createModelSources(): ModelSource[] {
+  return [
+    {
+      // Source: https://github.com/cline/cline/blob/main/webview-ui/src/components/settings/OpenRouterModelPicker.tsx
+      name: "github",
+      async load(previous) {
+        return loadConditional(GITHUB_FREE_MODELS_URL, clineConfig.catalogTimeoutMs, previous, parseFreeModelsFromTsx);
+      },
+    },
+    {
+      name: "cline-api",
+      async load(previous) {
+        return loadConditional(`${clineConfig.apiBase}/models`, clineConfig.catalogTimeoutMs, previous, text => {
+          const data = JSON.parse(text);
+          const items = Array.isArray(data?.data) ? data.data : Array.isArray(data) ? data : [];
+          return parseCatalogJson(items.filter((item: any) => isFreeCatalogItem(item)));
+        });
+      },
+    },
+    {
+      // User-supplied model list: local JSON file or http(s) URL
+      name: "local",
+      async load(previous) {
+        const location = clineConfig.modelsSource;
+        if (!location) return null;
+
+        const parse = (text: string) => parseCatalogJson(JSON.parse(text));
+        if (/^https?:\/\//.test(location)) {
+          return loadConditional(location, clineConfig.catalogTimeoutMs, previous, parse);
+        }
+        return { entries: parse(fs.readFileSync(location, "utf-8")) };
+      },
+    },
+    cacheModelSource,
+  ];
+}
+
+const cacheModelSource: ModelSource = {
+  name: "cache",
+  fallback: true,
+  async load() {
+    const cache = loadModelsCache();
+    if (!cache) return null;
+    return { entries: parseCatalogJson(cache.models) };
+  },
+};
+
+function isOfflineMode(): boolean {
+  return clineConfig.offline;
+}
+
+function resolvePinnedModelsFile(): string | null {
+  return clineConfig.pinnedModels;
+}
+
+// Offline mode: the pinned model file (`pinnedModels`), falling back to the cache.
+// Neither source touches the network.
+function createPinnedModelSources(): ModelSource[] {
+  return [
+    {
+      name: "pinned",
+      async load() {
+        const file = resolvePinnedModelsFile();
+        if (!file) return null;
+        return { entries: parseCatalogJson(JSON.parse(fs.readFileSync(file, "utf-8"))) };
+      },
+    },
+    cacheModelSource,
+  ];
+}
+
+// Order sources by the `modelSources` setting, if set
+function orderModelSources(sources: ModelSource[]): ModelSource[] {
+  const configured = clineConfig.modelSources;
+  if (!configured) return sources;
+
+  return configured
+    .map(name => sources.find(source => source.name === name))
+    .filter((source): source is ModelSource => !!source);
+}
+
+async function loadModelSources(
+  sources: ModelSource[],
+  previousRecords: Record<string, SourceCacheRecord> = {},
+): Promise<{
+  entries: Array<CatalogEntry & { source: string }>;
+  reports: ModelSourceReport[];
+  fromFallback: boolean;
+  records: Record<string, SourceCacheRecord>;
+}> {
+  const reports: ModelSourceReport[] = [];
+  const entries: Array<CatalogEntry & { source: string }> = [];
+  const records: Record<string, SourceCacheRecord> = {};
+
+  const loadInto = async (source: ModelSource) => {
+    try {
+      const loaded = await source.load(previousRecords[source.name]);
+      if (loaded === null) {
+        reports.push({ name: source.name, status: "skipped", count: 0, fallback: !!source.fallback, error: "Not configured" });
+        return;
+      }
+
+      if (!source.fallback) {
+        records[source.name] = {
+          etag: loaded.etag,
+          lastModified: loaded.lastModified,
+          entries: loaded.entries,
+          checkedAt: Date.now(),
+        };
+      }
+
+      let added = 0;
+      for (const entry of loaded.entries) {
+        // Earlier sources win on duplicate IDs
+        if (entries.some(e => e.id === entry.id)) continue;
+        entries.push({ ...entry, source: source.name });
+        added++;
+      }
+      reports.push({
+        name: source.name,
+        status: "ok",
+        count: added,
+        fallback: !!source.fallback,
+        notModified: loaded.notModified,
+      });
+    } catch (e) {
+      reports.push({
+        name: source.name,
+        status: "failed",
+        count: 0,
+        fallback: !!source.fallback,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  };
+
+  for (const source of sources.filter(s => !s.fallback)) {
+    await loadInto(source);
+  }
+
+  let fromFallback = false;
+  for (const source of sources.filter(s => s.fallback)) {
+    if (entries.length > 0) {
+      reports.push({ name: source.name, status: "skipped", count: 0, fallback: true, error: "Primary sources succeeded" });
+      continue;
+    }
+    await loadInto(source);
+    fromFallback = entries.length > 0;
+  }
+
+  return { entries, reports, fromFallback, records };
+}
+
+async function fetchModels(
+  sources: ModelSource[] = orderModelSources(createModelSources()),
+  cache: ModelsCache | null = null,
+  options: { offline?: boolean } = {},
+): Promise<ModelCatalog> {
+  const models: any[] = [];
+
+  // 1. Collect the list of free models from all configured catalog sources
+  const { entries, reports, fromFallback, records } = await loadModelSources(sources, cache?.sources);
+
+  // 2. Fetch OpenRouter metadata (for model details); not needed for cached models.
+  // The list is several megabytes, so revalidate conditionally when the cached
+  // metadata already covers every catalog ID.
+  let openRouterModels: any[] = [];
+  let openRouter: OpenRouterCacheRecord | undefined;
+  if (entries.length > 0 && !fromFallback && !options.offline) {
+    const ids = entries.map(e => e.id);
+    const cached = cache?.openRouter;
+    const canRevalidate = !!cached && ids.every(id => cached.ids.includes(id));
+
+    try {
+      const response = await fetchWithTimeout(OPENROUTER_MODELS_URL, clineConfig.openRouterTimeoutMs, {
+        headers: canRevalidate ? buildConditionalHeaders(cached) : {},
+      });
+      if (response?.status === 304 && canRevalidate) {
+        openRouterModels = cached!.info;
+      } else if (response?.ok) {
+        const data = await response.json();
+        openRouterModels = (data as any).data || [];
+        openRouter = {
+          etag: response.headers.get("ETag") || undefined,
+          lastModified: response.headers.get("Last-Modified") || undefined,
+          ids,
+          info: openRouterModels.filter((m: any) => ids.includes(m?.id)),
+        };
+      } else {
+        // Stale metadata beats defaults
+        openRouterModels = cached?.info || [];
+      }
+    } catch (e) {
+      // Silently fail - we'll use cached metadata or defaults for model info
+      openRouterModels = cached?.info || [];
+    }
+  }
+
+  // 3. Merge and validate - include all catalog entries, even if not in OpenRouter
+  for (const entry of entries) {
+    const id = entry.id;
+    const info = openRouterModels.find((m: any) => m.id === id);
+
+    // Default values (latest standards)
+    let isReasoning = false;
+    let contextWindow = clineConfig.defaultContextWindow;
+    let maxTokens = clineConfig.defaultMaxTokens;
+    let name = `${extractNameFromId(id)} (Cline)`;
+    let input = ["text"];
+    // All Cline free models have zero cost
+    const cost = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+
+    if (info) {
+       name = `${info.name} (Cline)`;
+
+       // Detect Reasoning
+       if (info.supported_parameters?.includes("include_reasoning") ||
+           info.supported_parameters?.includes("reasoning") ||
+           info.architecture?.instruct_type === "reasoning") {
+         isReasoning = true;
+       }
+
+       // Detect Vision
+       if (info.architecture?.modality?.includes("image")) {
+         input = ["text", "image"];
+       }
+
+       contextWindow = info.context_length || contextWindow;
+       maxTokens = info.top_provider?.max_completion_tokens || maxTokens;
+    }
+
+    // Metadata reported by the catalog source itself takes priority
+    const hasCatalogMetadata = entry.contextWindow !== undefined || entry.maxTokens !== undefined;
+    if (entry.name) name = entry.name.endsWith("(Cline)") ? entry.name : `${entry.name} (Cline)`;
+    if (entry.reasoning !== undefined) isReasoning = entry.reasoning;
+    if (entry.input && entry.input.length > 0) input = entry.input;
+    contextWindow = entry.contextWindow ?? contextWindow;
+    maxTokens = entry.maxTokens ?? maxTokens;
+
+    models.push({
+      id: id,
+      name: name,
+      catalogSource: entry.source,
+      description: entry.description,
+      freeUntil: entry.freeUntil,
+      promo: entry.promo,
+      metadataSource: hasCatalogMetadata ? "catalog" : info ? "openrouter" : "defaults",
+      reasoning: isReasoning,
+      input: input,
+      cost: cost,
+      contextWindow: contextWindow,
+      maxTokens: maxTokens,
+      compat: {
+        supportsStore: false,
+        supportsDeveloperRole: false,
+        maxTokensField: "max_tokens" as const,
+      },
+    });
+  }
+
+  return { models, reports, fromFallback, sources: records, openRouter };
+}
+
+function extractNameFromId(id: string): string {
+  const parts = id.split("/");
+  const name = parts[1] || parts[0];
+  return name.split(/[-_]/).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+}
+
+// PKCE verifier and S256 challenge (RFC 7636)
+function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+}
+
+// Reject callbacks that were not started by this login (CSRF protection)
+function assertCallbackState(received: string | null, expected: string): void {
+  if (!received) {
+    throw new Error("OAuth state missing from callback. Please start the login again with /login.");
+  }
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    throw new Error("OAuth state mismatch: the callback does not belong to this login. Please start the login again with /login.");
+  }
+}
+
+// OAuth error callback (?error=...&error_description=...) as a readable message
+function describeCallbackError(params: URLSearchParams): string | null {
+  const error = params.get("error");
+  if (!error) return null;
+  const description = params.get("error_description");
+  return description ? `${description} (${error})` : error;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Page shown in the browser after the callback - only seen for same-machine auth
+function renderCallbackPage(heading: string, message: string, isError = false): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Pi - Cline Auth</title>
+  <style>
+    body { 
+      font-family: system-ui, sans-serif;
+      background: #18181e;
+      color: ${isError ? "#cc6666" : "#b5bd68"};
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      min-height: 100vh;
+      margin: 0;
+    }
+    .message { text-align: center; }
+    .message h1 { font-size: 24px; margin-bottom: 8px; }
+    .message p { color: #808080; }
+  </style>
+</head>
+<body>
+  <div class="message">
+    <h1>${escapeHtml(heading)}</h1>
+    <p>${escapeHtml(message)}</p>
+  </div>
+</body>
+</html>`;
+}
+
+function isLoopbackAddress(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127\./.test(host);
+}
+
+// Listen on the first port that is free, trying the configured ports in order
+async function listenOnAvailablePort(server: http.Server, ports: number[], host: string): Promise<number> {
+  for (const port of ports) {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const onError = (err: any) => {
+          server.off("listening", onListening);
+          reject(err);
+        };
+        const onListening = () => {
+          server.off("error", onError);
+          resolve();
+        };
+        server.once("error", onError);
+        server.once("listening", onListening);
+        server.listen(port, host);
+      });
+      return port;
+    } catch (err: any) {
+      if (err?.code === "EADDRINUSE") continue;
+      if (err?.code === "EADDRNOTAVAIL") {
+        throw new Error(`Cannot bind the login callback server to ${host}. Check callbackBindAddress in /cline-config.`);
+      }
+      throw new Error(`Server error: ${err?.message || String(err)}`);
+    }
+  }
+
+  throw new Error(
+    `All login callback ports (${formatPortList(ports)}) are in use. ` +
+    "If another login is in progress, please cancel it first, or configure callbackPorts.",
+  );
+}
+
+// Cline token response -> stored credentials. Pi refreshes once `expires` has passed,
+// so it is set refreshSkewSeconds ahead of the real expiry (at most halfway through
+// the remaining lifetime); the real expiry is kept in `tokenExpires`.
+function toClineCredentials(accessToken: string, refreshToken: string, expiresAt: string | number): OAuthCredentials {
+  const tokenExpires = new Date(expiresAt).getTime();
+  const skewMs = Math.min(clineConfig.refreshSkewSeconds * 1000, Math.max(0, (tokenExpires - Date.now()) / 2));
+  return {
+    access: `workos:${accessToken}`,
+    refresh: refreshToken,
+    expires: tokenExpires - skewMs,
+    tokenExpires,
+  };
+}
+
+// Refresh errors say whether re-login is needed or the failure is transient
+async function refreshClineCredentials(credentials: OAuthCredentials): Promise<OAuthCredentials> {
+  const refreshUrl = `${clineConfig.apiBase}/auth/refresh`;
+  let response: Response;
+  try {
+    response = await fetch(refreshUrl, {
+      method: "POST",
+      headers: buildClineAuthHeaders(),
+      body: JSON.stringify({
+        refreshToken: credentials.refresh,
+        grantType: "refresh_token"
+      })
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cline token refresh failed (network error: ${message}). This is usually temporary; please try again.`);
+  }
+
+  if (!response.ok) {
+    const errText = await response.text().catch(() => "");
+    const detail = `${response.status}${errText ? `: ${errText.slice(0, 120)}` : ""}`;
+    if (response.status >= 500 || response.status === 429) {
+      throw new Error(`Cline token refresh failed temporarily (${detail}). Please try again shortly.`);
+    }
+    throw new Error(`Cline session expired or was revoked (${detail}). Run /login and select Cline to sign in again.`);
+  }
+
+  const data = await response.json().catch(() => null) as any;
+  if (!data?.success || !data.data?.accessToken) {
+    throw new Error("Invalid refresh response from Cline. Please try again, or run /login if this persists.");
+  }
+
+  const refreshed = toClineCredentials(data.data.accessToken, data.data.refreshToken || credentials.refresh, data.data.expiresAt);
+  // Keep the named-account tag (see /cline-account)
+  return typeof credentials.account === "string" ? { ...refreshed, account: credentials.account } : refreshed;
+}
+
+// Running forced refresh, shared by concurrent 401 retries
+let credentialsRefreshInFlight: Promise<string> | null = null;
+
+// Refresh stored credentials regardless of `expires` (the token was rejected) and
+// return the new API key
+function forceRefreshClineApiKey(): Promise<string> {
+  if (credentialsRefreshInFlight) return credentialsRefreshInFlight;
+
+  credentialsRefreshInFlight = (async () => {
+    const current = clineAuthStorage?.get("cline");
+    if (!clineAuthStorage || current?.type !== "oauth") {
+      throw new Error("Not logged in to Cline. Run /login and select Cline.");
+    }
+    const refreshed = await refreshClineCredentials(current);
+    clineAuthStorage.set("cline", { type: "oauth", ...refreshed });
+    return refreshed.access;
+  })().finally(() => {
+    credentialsRefreshInFlight = null;
+  });
+  return credentialsRefreshInFlight;
+}
+
+const CLINE_COMPLETIONS_API = "cline-completions";
+
+// The OpenAI client only surfaces the status and message of failed requests, so Cline
+// requests get a fetch of their own that records response headers (Retry-After, rate
+// limits) and writes debug captures. Other providers keep the global fetch.
+type ClineResponseInfo = { status: number; headers: Record<string, string> };
+
+const clineResponses = new Map<string, ClineResponseInfo>();
+
+function createClineFetch(requestId: string, baseFetch: typeof fetch): typeof fetch {
+  return (async (input: any, init?: RequestInit) => {
+    const response = await baseFetch(input, init);
+    const responseHeaders = Object.fromEntries(response.headers.entries());
+    clineResponses.set(requestId, { status: response.status, headers: responseHeaders });
+
+    if (clineConfig.capture) {
+      // Error bodies are small; successful (streaming) bodies are left to the client
+      const errorBody = response.ok ? undefined : await response.clone().text().catch(() => undefined);
+      writeCapture(requestId, String(input instanceof Request ? input.url : input), new Headers(init?.headers), init?.body, {
+        status: response.status,
+        headers: responseHeaders,
+        body: errorBody,
+      });
+    }
+    return response;
+  }) as typeof fetch;
+}
+
+// One completion request through the Cline fetch. pi-ai creates its OpenAI client, which
+// takes the global fetch, synchronously within this call; the global is restored before
+// returning, so no other request ever sees the wrapper.
+function streamClineCompletionRequest(
+  model: Model<"openai-completions">,
+  context: Context,
+  options: SimpleStreamOptions,
+  requestId: string,
+) {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createClineFetch(requestId, originalFetch);
+  try {
+    return streamSimpleOpenAICompletions(model, context, options);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+// Opt-in capture of completion requests in the layout loadScaffoldFromDebugCapture() reads:
+// <id>-request.body.json, <id>-request.headers.json and <id>-response.json
+const CAPTURE_FILE_PATTERN = /^([0-9A-Z]{26})-(request\.body|request\.headers|response)\.json$/;
+const REDACTED_HEADERS = ["authorization", "cookie", "x-api-key", "proxy-authorization"];
+
+function getCaptureDir(): string {
+  return clineConfig.captureDir || path.join(os.homedir(), ".pi", "agent", ".debug", "capture");
+}
+
+function writeCapture(
+  requestId: string,
+  requestUrl: string,
+  requestHeaders: Headers,
+  requestBody: unknown,
+  response: { status: number; headers: Record<string, string>; body?: string },
+): void {
+  try {
+    const captureDir = getCaptureDir();
+    fs.mkdirSync(captureDir, { recursive: true });
+    const limit = clineConfig.captureMaxBytes;
+    const write = (suffix: string, data: string) => {
+      // Oversized files are replaced by a note instead of being truncated into invalid JSON
+      const content = Buffer.byteLength(data) > limit
+        ? JSON.stringify({ skipped: `larger than captureMaxBytes (${limit} bytes)`, bytes: Buffer.byteLength(data) })
+        : data;
+      fs.writeFileSync(path.join(captureDir, `${requestId}-${suffix}.json`), content, { mode: 0o600 });
+    };
+
+    let body = typeof requestBody === "string" ? requestBody : "";
+    try {
+      body = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // Keep the raw body
+    }
+
+    const headers: Record<string, string> = {};
+    requestHeaders.forEach((value, key) => {
+      headers[key] = REDACTED_HEADERS.includes(key.toLowerCase()) ? "[REDACTED]" : value;
+    });
+
+    let errorBody: unknown = response.body;
+    try {
+      errorBody = response.body ? JSON.parse(response.body) : undefined;
+    } catch {
+      // Keep the raw error text
+    }
+
+    write("request.body", body);
+    write("request.headers", JSON.stringify({ url: requestUrl, headers, writer: CAPTURE_WRITER }, null, 2));
+    write("response", JSON.stringify({ status: response.status, headers: response.headers, error: errorBody }, null, 2));
+    rotateCaptures(captureDir);
+  } catch (error) {
+    console.error("[Cline] Failed to write capture:", error);
+  }
+}
+
+// Keep only the newest captureMaxRequests captures (IDs are ULIDs, so they sort by time)
+function rotateCaptures(captureDir: string): void {
+  const files = fs.readdirSync(captureDir).filter(file => CAPTURE_FILE_PATTERN.test(file));
+  const ids = [...new Set(files.map(file => file.match(CAPTURE_FILE_PATTERN)![1]))].sort();
+  const expired = new Set(ids.slice(0, Math.max(0, ids.length - clineConfig.captureMaxRequests)));
+  for (const file of files) {
+    if (expired.has(file.match(CAPTURE_FILE_PATTERN)![1])) {
+      fs.rmSync(path.join(captureDir, file), { force: true });
+    }
+  }
+}
+
+// Longest delay hint taken at face value; anything larger is treated as a misread header
+const MAX_PLAUSIBLE_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Parse a delay header: seconds ("12", "1.5"), a reset time as epoch seconds or milliseconds
+// (x-ratelimit-reset), an HTTP date, or a duration like "6m0s"/"200ms".
+// Returns undefined for anything unparseable or implausibly far away.
+function parseDelayHeader(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const text = value.trim();
+  let delayMs: number | undefined;
+
+  const duration = text.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/);
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = parseFloat(text);
+    // 1e12 ms is 2001 and 1e9 s is 2001: values that large are timestamps, not delays
+    if (number >= 1e12) delayMs = Math.max(0, number - Date.now());
+    else if (number >= 1e9) delayMs = Math.max(0, number * 1000 - Date.now());
+    else delayMs = number * 1000;
+  } else if (duration && duration.slice(1).some(Boolean)) {
+    const [, h = "0", m = "0", sec = "0", ms = "0"] = duration;
+    delayMs = ((Number(h) * 60 + Number(m)) * 60 + parseFloat(sec)) * 1000 + Number(ms);
+  } else {
+    const date = Date.parse(text);
+    if (!Number.isNaN(date)) delayMs = Math.max(0, date - Date.now());
+  }
+
+  return delayMs !== undefined && delayMs <= MAX_PLAUSIBLE_DELAY_MS ? delayMs : undefined;
+}
+
+// How long to wait before retrying a 429: the server's hint (Retry-After, retry-after-ms,
+// rate-limit reset headers) plus up to 10% jitter, or exponential backoff with full jitter
+function getRateLimitDelayMs(headers: Record<string, string> | undefined, attempt: number): number {
+  const hinted = headers && (
+    parseDelayHeader(headers["retry-after-ms"] && `${headers["retry-after-ms"]}ms`) ??
+    parseDelayHeader(headers["retry-after"]) ??
+    parseDelayHeader(headers["x-ratelimit-reset-requests"]) ??
+    parseDelayHeader(headers["x-ratelimit-reset-tokens"]) ??
+    parseDelayHeader(headers["x-ratelimit-reset"])
+  );
+  if (hinted !== undefined) {
+    return Math.round(hinted * (1 + Math.random() * 0.1));
+  }
+  const ceiling = Math.min(1000 * 2 ** (attempt + 1), clineConfig.rateLimitMaxDelaySeconds * 1000);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Wait out a rate limit, showing a countdown in the status line. Returns false if aborted.
+async function waitForRateLimit(delayMs: number, modelId: string, signal?: AbortSignal): Promise<boolean> {
+  const until = Date.now() + delayMs;
+  try {
+    while (Date.now() < until) {
+      if (signal?.aborted) return false;
+      const seconds = Math.ceil((until - Date.now()) / 1000);
+      clineUi?.setStatus("cline-rate-limit", `Cline: ${modelId} rate limited, retrying in ${seconds}s`);
+      // Wake up early when aborted
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          resolve();
+        };
+        const timer = setTimeout(done, Math.min(1000, until - Date.now()));
+        signal?.addEventListener("abort", done, { once: true });
+      });
+    }
+    return !signal?.aborted;
+  } finally {
+    clineUi?.setStatus("cline-rate-limit", undefined);
+  }
+}
+
+// End of the current 429 backoff per model. While it lasts, other requests to that model
+// wait for it instead of hitting the limit again; otherwise requests run in parallel.
+const rateLimitWindows = new Map<string, number>();
+
+// Wait until the model's backoff window (which may be extended meanwhile) is over.
+// Returns false if aborted.
+async function waitForRateLimitWindow(modelId: string, signal?: AbortSignal): Promise<boolean> {
+  let until = rateLimitWindows.get(modelId) ?? 0;
+  while (until > Date.now()) {
+    if (!await waitForRateLimit(until - Date.now(), modelId, signal)) return false;
+    until = rateLimitWindows.get(modelId) ?? 0;
+  }
+  rateLimitWindows.delete(modelId);
+  return !signal?.aborted;
+}
+
+// A failed request that was cancelled is reported as aborted, with the signal's reason
+function toAbortedEvent(event: any, signal: AbortSignal): any {
+  const reason = signal.reason;
+  const message = reason instanceof Error ? reason.message : typeof reason === "string" ? reason : "Request was aborted";
+  return { ...event, reason: "aborted", error: { ...event.error, stopReason: "aborted", errorMessage: message } };
+}
+
+// Cline's XML tool syntax, which some models answer with because of the Cline request envelope.
+// With `xmlTools` on, supported blocks become Pi tool calls; other Cline tools are reported.
+const CLINE_XML_TOOL_TAGS = [
+  "execute_command",
+  "read_file",
+  "write_to_file",
+  "replace_in_file",
+  "plan_mode_respond",
+  "search_files",
+  "list_files",
+  "list_code_definition_names",
+  "browser_action",
+  "use_mcp_tool",
+  "access_mcp_resource",
+  "ask_followup_question",
+  "attempt_completion",
+  "new_task",
+  "web_fetch",
+];
+
+const CLINE_XML_TOOL_OPEN_PATTERN = new RegExp(`<(${CLINE_XML_TOOL_TAGS.join("|")})>`, "g");
+
+// Parameters holding file text, which may itself contain closing tags like </content>
+const CLINE_XML_FILE_PARAMS: Record<string, string> = { write_to_file: "content", replace_in_file: "diff" };
+
+type ClineXmlToolResult = {
+  text: string;
+  toolCalls: Array<{ type: "toolCall"; id: string; name: string; arguments: Record<string, any> }>;
+  // Tags left as text, with the reason
+  skipped: string[];
+};
+
+// Parameter value of a Cline tool block. Single leading/trailing newlines are dropped.
+// File text parameters run to the last closing tag in the block, other parameters to the first.
+function getClineXmlParam(body: string, name: string): string | null {
+  const value = Object.values(CLINE_XML_FILE_PARAMS).includes(name) ? "([\\s\\S]*)" : "([\\s\\S]*?)";
+  const match = body.match(new RegExp(`<${name}>${value}</${name}>`));
+  return match ? match[1].replace(/^\r?\n/, "").replace(/\r?\n$/, "") : null;
+}
+
+// A block with a file text parameter is unambiguous when everything outside that parameter
+// is other parameters and whitespace. Stray text means a closing tag inside the file text
+// was taken for the end of the block, or the block is malformed.
+function isClineXmlFileBlock(body: string, param: string): boolean {
+  const match = body.match(new RegExp(`<${param}>[\\s\\S]*</${param}>`));
+  if (!match) return false;
+  const outside = body.slice(0, match.index) + body.slice((match.index ?? 0) + match[0].length);
+  return outside.replace(/<(\w+)>[\s\S]*?<\/\1>/g, "").trim() === "";
+}
+
+// Cline tool blocks in text, in order. A block ends at the first closing tag, except that
+// write_to_file/replace_in_file blocks end at the first closing tag that leaves a complete,
+// unambiguous file text parameter, so file text containing "</write_to_file>" stays whole.
+function findClineXmlToolBlocks(text: string): Array<{ start: number; end: number; tag: string; body: string }> {
+  const blocks: Array<{ start: number; end: number; tag: string; body: string }> = [];
+  const pattern = new RegExp(CLINE_XML_TOOL_OPEN_PATTERN);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const tag = match[1];
+    const closeTag = `</${tag}>`;
+    const bodyStart = match.index + match[0].length;
+    let close = text.indexOf(closeTag, bodyStart);
+    if (close < 0) continue;
+
+    const param = CLINE_XML_FILE_PARAMS[tag];
+    for (let next = close; param && next >= 0; next = text.indexOf(closeTag, next + closeTag.length)) {
+      if (isClineXmlFileBlock(text.slice(bodyStart, next), param)) {
+        close = next;
+        break;
+      }
+    }
+
+    blocks.push({ start: match.index, end: close + closeTag.length, tag, body: text.slice(bodyStart, close) });
+    pattern.lastIndex = close + closeTag.length;
+  }
+  return blocks;
+}
+
+// SEARCH/REPLACE blocks of a replace_in_file diff ("------- SEARCH" / "=======" / "+++++++ REPLACE",
+// or the older "<<<<<<< SEARCH" / ">>>>>>> REPLACE" markers). Returns null when malformed.
+function parseClineDiff(diff: string): Array<{ oldText: string; newText: string }> | null {
+  const edits: Array<{ oldText: string; newText: string }> = [];
+  let state: "none" | "search" | "replace" = "none";
+  let search: string[] = [];
+  let replace: string[] = [];
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (/^[-<]{3,} ?SEARCH>?\s*$/.test(line)) {
+      if (state !== "none") return null;
+      state = "search";
+      search = [];
+      replace = [];
+    } else if (state === "search" && /^={3,}\s*$/.test(line)) {
+      state = "replace";
+    } else if (state === "replace" && /^[+>]{3,} ?REPLACE<?\s*$/.test(line)) {
+      if (search.length === 0 || !search.join("\n")) return null;
+      edits.push({ oldText: search.join("\n"), newText: replace.join("\n") });
+      state = "none";
+    } else if (state === "search") {
+      search.push(line);
+    } else if (state === "replace") {
+      replace.push(line);
+    }
+  }
+
+  return state === "none" && edits.length > 0 ? edits : null;
+}
+
+// Pi tool call for one Cline tool block, text for plan_mode_respond, or the reason it can't be mapped
+function mapClineXmlTool(tag: string, body: string): { name: string; arguments: Record<string, any> } | { text: string } | { error: string } {
+  const filePath = getClineXmlParam(body, "path")?.trim();
+
+  switch (tag) {
+    case "execute_command": {
+      const command = getClineXmlParam(body, "command")?.trim();
+      return command ? { name: "bash", arguments: { command } } : { error: "missing <command>" };
+    }
+    case "read_file":
+      return filePath ? { name: "read", arguments: { path: filePath } } : { error: "missing <path>" };
+    case "write_to_file": {
+      const content = getClineXmlParam(body, "content");
+      if (!filePath) return { error: "missing <path>" };
+      if (content !== null && !isClineXmlFileBlock(body, "content")) return { error: "ambiguous <content>" };
+      return content !== null ? { name: "write", arguments: { path: filePath, content } } : { error: "missing <content>" };
+    }
+    case "replace_in_file": {
+      const diff = getClineXmlParam(body, "diff");
+      if (!filePath) return { error: "missing <path>" };
+      if (diff !== null && !isClineXmlFileBlock(body, "diff")) return { error: "ambiguous <diff>" };
+      const edits = diff !== null ? parseClineDiff(diff) : null;
+      return edits ? { name: "edit", arguments: { path: filePath, edits } } : { error: "missing or malformed SEARCH/REPLACE <diff>" };
+    }
+    case "plan_mode_respond":
+      return { text: (getClineXmlParam(body, "response") ?? body).trim() };
+    default:
+      return { error: "no Pi equivalent" };
+  }
+}
+
+// Translate Cline XML tool blocks in assistant text. Blocks inside ``` code fences are examples, not calls.
+function translateClineXmlTools(text: string): ClineXmlToolResult {
+  const result: ClineXmlToolResult = { text, toolCalls: [], skipped: [] };
+  const segments = text.split(/(```[\s\S]*?```)/);
+  let replaced = false;
+
+  const translated = segments.map(segment => {
+    if (segment.startsWith("```")) return segment;
+    let output = "";
+    let lastIndex = 0;
+    for (const { start, end, tag, body } of findClineXmlToolBlocks(segment)) {
+      output += segment.slice(lastIndex, start);
+      lastIndex = end;
+      const mapped = mapClineXmlTool(tag, body);
+      if ("error" in mapped) {
+        result.skipped.push(`<${tag}> (${mapped.error})`);
+        output += segment.slice(start, end);
+        continue;
+      }
+      replaced = true;
+      if ("text" in mapped) {
+        output += mapped.text;
+      } else {
+        result.toolCalls.push({ type: "toolCall", id: `cline_xml_${generateUlid()}`, ...mapped });
+      }
+    }
+    return output + segment.slice(lastIndex);
+  }).join("");
+
+  if (replaced) result.text = translated.replace(/\n{3,}/g, "\n\n").trim();
+  return result;
+}
+
+// Rewrite the final assistant message: translated tool calls are appended (with their stream
+// events) and the stop reason becomes toolUse. Unsupported or malformed blocks stay as text.
+function adaptClineXmlToolOutput(event: any, stream: ReturnType<typeof createAssistantMessageEventStream>): any {
+  const message = event.message;
+  const content: any[] = [];
+  const toolCalls: ClineXmlToolResult["toolCalls"] = [];
+  const skipped: string[] = [];
+  let changed = false;
+
+  for (const part of message.content) {
+    if (part?.type !== "text") {
+      content.push(part);
+      continue;
+    }
+    const translated = translateClineXmlTools(part.text);
+    toolCalls.push(...translated.toolCalls);
+    skipped.push(...translated.skipped);
+    if (translated.text !== part.text) changed = true;
+    if (translated.text) content.push({ ...part, text: translated.text });
+  }
+
+  if (skipped.length > 0) {
+    clineUi?.notify(`Cline: The model used Cline tool syntax that was not run: ${skipped.join(", ")}.`, "warning");
+  }
+  if (!changed) return event;
+
+  const adapted = { ...message, content };
+  for (const toolCall of toolCalls) {
+    adapted.content = [...adapted.content, toolCall];
+    const contentIndex = adapted.content.length - 1;
+    stream.push({ type: "toolcall_start", contentIndex, partial: adapted });
+    stream.push({ type: "toolcall_end", contentIndex, toolCall, partial: adapted });
+  }
+  if (toolCalls.length > 0) adapted.stopReason = "toolUse";
+
+  return { ...event, reason: adapted.stopReason, message: adapted };
+}
+
+// OpenAI-compatible completions with Cline-specific recovery:
+// - 401: retried once with refreshed credentials (token revoked or expired early)
+// - 429/quota: next saved account when rotateAccounts is on, otherwise backoff per
+//   Retry-After/rate-limit headers, up to rateLimitMaxRetries; other requests to the
+//   model wait while it backs off
+// - aborted while waiting: reported as aborted, not as the 429
+function streamClineCompletions(model: Model<Api>, context: Context, options?: SimpleStreamOptions) {
+  const stream = createAssistantMessageEventStream();
+  const completionsModel = { ...model, api: "openai-completions" } as Model<"openai-completions">;
+  const signal = options?.signal;
+
+  (async () => {
+    try {
+      let retryOptions: Partial<SimpleStreamOptions> = {};
+      let refreshedAfter401 = false;
+      let rateLimitRetries = 0;
+      const triedAccounts = new Set<string>();
+
+      while (true) {
+        const requestId = generateUlid();
+        const requestOptions: SimpleStreamOptions = {
+          ...options,
+          ...retryOptions,
+          // Rate limits are handled below, with visible backoff
+          maxRetries: 0,
+          headers: { ...options?.headers, ...retryOptions.headers },
+        };
+        let retry = false;
+
+        // Aborted waits fall through: the request then fails as aborted right away
+        await waitForRateLimitWindow(model.id, signal);
+
+        for await (const event of streamClineCompletionRequest(completionsModel, context, requestOptions, requestId)) {
+          if (event.type === "error" && signal?.aborted) {
+            stream.push(toAbortedEvent(event, signal));
+            continue;
+          }
+          if (event.type === "error") {
+            const errorMessage = event.error.errorMessage || "";
+            const response = clineResponses.get(requestId);
+            try {
+              let apiKey: string | null = null;
+              if (!refreshedAfter401 && /^401\b/.test(errorMessage)) {
+                refreshedAfter401 = true;
+                apiKey = await forceRefreshClineApiKey();
+              } else if (isQuotaError(errorMessage)) {
+                apiKey = await rotateClineAccount(triedAccounts);
+              }
 
-  // Refresh headers (especially X-Task-ID) for every prompt
-  pi.on("before_agent_start", async (_event, ctx) => {
-    if (isLikelyClineProvider(ctx)) {
-      selectedProvider = "cline";
-    } else {
-      selectedProvider = (ctx as any)?.model?.provider || selectedProvider;
-    }
-    registerClineProvider(pi, lastKnownModels);
-  });
+              if (apiKey) {
+                retryOptions = { apiKey, headers: { Authorization: `Bearer ${apiKey}` } };
+                retry = true;
+              } else if (/^429\b/.test(errorMessage) && rateLimitRetries < clineConfig.rateLimitMaxRetries) {
+                const delayMs = getRateLimitDelayMs(response?.headers, rateLimitRetries);
+                if (delayMs > clineConfig.rateLimitMaxDelaySeconds * 1000) {
+                  event.error.errorMessage = `${errorMessage}\nCline asked to wait ${formatAge(delayMs)}, longer than rateLimitMaxDelaySeconds (${clineConfig.rateLimitMaxDelaySeconds}s).`;
+                } else {
+                  rateLimitRetries++;
+                  rateLimitWindows.set(model.id, Math.max(rateLimitWindows.get(model.id) ?? 0, Date.now() + delayMs));
+                  retry = await waitForRateLimitWindow(model.id, signal);
+                }
+              }
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              event.error.errorMessage = `${errorMessage}\n${message}`;
+            }
+            clineResponses.delete(requestId);
+            if (retry) break;
+            if (signal?.aborted) {
+              stream.push(toAbortedEvent(event, signal));
+              continue;
+            }
+          }
+          stream.push(event.type === "done" && clineConfig.xmlTools ? adaptClineXmlToolOutput(event, stream) : event);
+        }
 
-  // Non-blocking model refresh on session start
-  pi.on("session_start", async (_event, ctx) => {
-    if (isLikelyClineProvider(ctx)) {
-      selectedProvider = "cline";
+        clineResponses.delete(requestId);
+        if (!retry) break;
+      }
+    } finally {
+      stream.end();
     }
+  })();
 
-    // Refresh provider identity at session boundary as well
-    registerClineProvider(pi, lastKnownModels);
+  return stream;
+}
+
+function isQuotaError(errorMessage: string): boolean {
+  return /^429\b/.test(errorMessage) || /quota/i.test(errorMessage);
+}
 
-    // Reload scaffold from local capture if available
-    const scaffold = loadScaffoldFromDebugCapture();
-    if (scaffold) {
-      clineScaffold = scaffold;
+// Named Cline accounts. The active account's credentials stay in Pi's auth storage
+// under "cline", tagged with `account`; all named accounts are kept in this file.
+const CLINE_ACCOUNTS_FILE = path.join(os.homedir(), ".pi", "agent", "cline-accounts.json");
+
+type ClineAccounts = Record<string, OAuthCredentials>;
+
+function loadClineAccounts(): ClineAccounts {
+  try {
+    const raw = JSON.parse(fs.readFileSync(CLINE_ACCOUNTS_FILE, "utf-8"));
+    const accounts: ClineAccounts = {};
+    for (const [name, credentials] of Object.entries<any>(raw?.accounts || {})) {
+      if (typeof credentials?.access === "string" && typeof credentials?.refresh === "string") {
+        accounts[name] = credentials;
+      }
     }
+    return accounts;
+  } catch {
+    return {};
+  }
+}
 
-    // Run in background to avoid blocking Pi's startup/UI sequence
-    (async () => {
-      try {
-        const models = await fetchModels();
-        if (models.length === 0) {
-          ctx.ui.notify("Cline: No free models available. Check network or Cline status.", "warning");
-          return;
-        }
+function writeClineAccounts(accounts: ClineAccounts): void {
+  fs.mkdirSync(path.dirname(CLINE_ACCOUNTS_FILE), { recursive: true });
+  // Tokens: keep the file private and write atomically
+  const tmpFile = `${CLINE_ACCOUNTS_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify({ version: 1, accounts }, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpFile, CLINE_ACCOUNTS_FILE);
+}
 
-        // Check if models changed by comparing IDs
-        const newModelIds = models.map(m => m.id);
-        const lastKnownIds = lastKnownModels.map(m => m.id);
-        const hasChanged = 
-          newModelIds.length !== lastKnownIds.length ||
-          !newModelIds.every(id => lastKnownIds.includes(id));
-
-        if (hasChanged) {
-          registerClineProvider(pi, models);
-
-          // Save to cache
-          try {
-            fs.mkdirSync(path.dirname(MODELS_CACHE_FILE), { recursive: true });
-            fs.writeFileSync(MODELS_CACHE_FILE, JSON.stringify({ models: models, timestamp: Date.now() }));
-          } catch {
-            // Ignore cache save errors
-          }
+function getClineCredentials(storage: Pick<AuthStorage, "get">): OAuthCredentials | null {
+  const current = storage.get("cline");
+  if (current?.type !== "oauth") return null;
+  const { type: _type, ...credentials } = current;
+  return credentials;
+}
 
-          // Determine what changed for better messaging
-          const added = newModelIds.filter(id => !lastKnownIds.includes(id));
-          const removed = lastKnownIds.filter(id => !newModelIds.includes(id));
-
-          if (lastKnownModels.length === 0) {
-            // First time - just mention count
-            ctx.ui.notify(`Cline: ${models.length} models available`, "info");
-          } else if (added.length > 0 && removed.length > 0) {
-            ctx.ui.notify(`Cline: ${added.length} new, ${removed.length} removed (${models.length} total)`, "info");
-          } else if (added.length > 0) {
-            ctx.ui.notify(`Cline: ${added.length} new models added (${models.length} total)`, "info");
-          } else if (removed.length > 0) {
-            ctx.ui.notify(`Cline: ${removed.length} models removed (${models.length} total)`, "info");
-          }
+function getActiveClineAccount(storage: Pick<AuthStorage, "get">): string | null {
+  const account = getClineCredentials(storage)?.account;
+  return typeof account === "string" ? account : null;
+}
 
-          lastKnownModels = models;
-        }
+// Copy the active account's (possibly refreshed) credentials back into `accounts`
+function syncActiveClineAccount(storage: AuthStorage, accounts: ClineAccounts): void {
+  const name = getActiveClineAccount(storage);
+  if (name && accounts[name]) {
+    accounts[name] = getClineCredentials(storage)!;
+  }
+}
+
+// Store the current login under `name` and make it the active account
+function saveClineAccount(storage: AuthStorage, name: string): void {
+  const credentials = getClineCredentials(storage);
+  if (!credentials) {
+    throw new Error("Not logged in to Cline. Run /login and select Cline first.");
+  }
+  const accounts = loadClineAccounts();
+  syncActiveClineAccount(storage, accounts);
+  accounts[name] = { ...credentials, account: name };
+  writeClineAccounts(accounts);
+  storage.set("cline", { type: "oauth", ...accounts[name] });
+}
+
+// Switch the active account, refreshing its token if it expired while inactive.
+// Returns the new API key.
+async function useClineAccount(storage: AuthStorage, name: string): Promise<string> {
+  const accounts = loadClineAccounts();
+  if (!accounts[name]) {
+    const known = Object.keys(accounts);
+    throw new Error(`Unknown account "${name}".${known.length > 0 ? ` Known accounts: ${known.join(", ")}` : ""}`);
+  }
+  syncActiveClineAccount(storage, accounts);
+
+  let credentials: OAuthCredentials = { ...accounts[name], account: name };
+  if (Date.now() >= credentials.expires) {
+    credentials = await refreshClineCredentials(credentials);
+  }
+  accounts[name] = credentials;
+  writeClineAccounts(accounts);
+  storage.set("cline", { type: "oauth", ...credentials });
+  return credentials.access;
+}
+
+function removeClineAccount(storage: AuthStorage, name: string): void {
+  const accounts = loadClineAccounts();
+  if (!accounts[name]) {
+    throw new Error(`Unknown account "${name}"`);
+  }
+  delete accounts[name];
+  writeClineAccounts(accounts);
+
+  // The login itself stays active, just without a name
+  const current = getClineCredentials(storage);
+  if (current && current.account === name) {
+    const { account: _account, ...credentials } = current;
+    storage.set("cline", { type: "oauth", ...credentials });
+  }
+}
+
+// Switch to the next saved account after a 429/quota error (when rotateAccounts is on).
+// Each account is tried at most once per request.
+async function rotateClineAccount(triedAccounts: Set<string>): Promise<string | null> {
+  if (!clineConfig.rotateAccounts || !clineAuthStorage) return null;
+  const active = getActiveClineAccount(clineAuthStorage);
+  if (!active) return null;
+  triedAccounts.add(active);
+
+  const names = Object.keys(loadClineAccounts()).sort();
+  const start = names.indexOf(active);
+  const next = names.slice(start + 1).concat(names.slice(0, start + 1)).find(name => !triedAccounts.has(name));
+  if (!next) return null;
+
+  const apiKey = await useClineAccount(clineAuthStorage, next);
+  triedAccounts.add(next);
+  if (clineUi) {
+    clineUi.notify(`Cline: Account "${active}" hit a rate limit or quota, switched to "${next}"`, "warning");
+    clineUi.setStatus("cline-account", `Cline: ${next}`);
+  }
+  return apiKey;
+}
+
+function updateClineAccountStatus(ctx: ExtensionContext): void {
+  const active = getActiveClineAccount(ctx.modelRegistry.authStorage);
+  ctx.ui.setStatus("cline-account", active ? `Cline: ${active}` : undefined);
+}
+
+function formatClineAccounts(storage: AuthStorage): string {
+  const names = Object.keys(loadClineAccounts()).sort();
+  if (names.length === 0) {
+    return "Cline: No saved accounts. Log in with /login, then save it with /cline-account add <name>.";
+  }
+  const active = getActiveClineAccount(storage);
+  const lines = names.map(name => `${name === active ? "*" : " "} ${name}`);
+  return [
+    "Cline accounts:",
+    ...lines,
+    `Rotation on rate limits: ${clineConfig.rotateAccounts ? "on" : "off"}`,
+  ].join("\n");
+}
+
+// Revoke the session on the server so the refresh token stops working
+async function revokeClineCredentials(credentials: OAuthCredentials): Promise<void> {
+  const response = await fetchWithTimeout(`${clineConfig.apiBase}/auth/logout`, clineConfig.catalogTimeoutMs, {
+    method: "POST",
+    headers: { ...buildClineAuthHeaders(), Authorization: `Bearer ${credentials.access}` },
+    body: JSON.stringify({ refreshToken: credentials.refresh }),
+  });
+  if (!response) {
+    throw new Error("Cline API did not respond");
+  }
+  // Already invalid tokens are as good as revoked
+  if (!response.ok && response.status !== 401) {
+    const errText = await response.text().catch(() => "");
+    throw new Error(`${response.status}${errText ? `: ${errText.slice(0, 120)}` : ""}`);
+  }
+}
+
+const hookedAuthStorages = new WeakSet<AuthStorage>();
+
+// Pi has no logout hook for OAuth providers, so wrap logout() on its storage: removing
+// the Cline login also revokes it on the server. Revocation runs in the background and
+// failures are reported without affecting the local logout.
+function hookClineLogout(storage: AuthStorage): void {
+  if (hookedAuthStorages.has(storage)) return;
+  hookedAuthStorages.add(storage);
+
+  const logout = storage.logout.bind(storage);
+  storage.logout = (provider: string) => {
+    const credentials = provider === "cline" ? getClineCredentials(storage) : null;
+    logout(provider);
+    if (!credentials) return;
+
+    // A revoked login can't be used again, so drop its saved copy as well
+    const account = typeof credentials.account === "string" ? credentials.account : null;
+    if (account && loadClineAccounts()[account]) {
+      try {
+        removeClineAccount(storage, account);
       } catch (error) {
-        console.error("[Cline] Failed to update models:", error);
+        console.error("[Cline] Failed to remove saved account:", error);
       }
-    })();
+    }
+    clineUi?.setStatus("cline-account", undefined);
+
+    revokeClineCredentials(credentials).then(
+      () => clineUi?.notify("Cline: Session revoked on the server", "info"),
+      error => clineUi?.notify(
+        `Cline: Logged out locally, but revoking the session on the server failed (${error instanceof Error ? error.message : String(error)})`,
+        "warning",
+      ),
+    );
+  };
+}
+
+// Cline account API (same endpoints as the Cline extension's account view)
+async function fetchClineAccountJson(pathname: string, apiKey: string): Promise<any> {
+  const response = await fetchWithTimeout(`${clineConfig.apiBase}${pathname}`, clineConfig.catalogTimeoutMs, {
+    headers: { ...buildClineAuthHeaders(), Authorization: `Bearer ${apiKey}` },
   });
+  if (!response) {
+    throw new Error(`Cline API did not respond (${pathname}). Check your connection and try again.`);
+  }
+  if (response.status === 401) {
+    throw new Error("Cline token expired or was revoked. Run /login and select Cline to sign in again.");
+  }
+  if (!response.ok) {
+    const errText = await response.text().catch(() => "");
+    throw new Error(`Cline API request failed (${pathname}: ${response.status}${errText ? `: ${errText.slice(0, 120)}` : ""})`);
+  }
+  const data = await response.json().catch(() => null) as any;
+  if (!data || data.success === false) {
+    throw new Error(`Invalid response from Cline API (${pathname})`);
+  }
+  return data.data ?? data;
 }
 
-// Helper to fetch with timeout
-async function fetchWithTimeout(url: string, timeoutMs: number = 8000): Promise<Response | null> {
+function formatClineBalance(balance: unknown): string | undefined {
+  const value = typeof balance === "string" ? parseFloat(balance) : balance;
+  return typeof value === "number" && Number.isFinite(value)
+    ? value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+    : undefined;
+}
+
+// Signed-in user, organization, credit balance and token expiry for the active login
+async function formatClineAccountInfo(storage: Pick<AuthStorage, "get" | "getApiKey">): Promise<string> {
+  const credentials = getClineCredentials(storage);
+  if (!credentials) {
+    return "Cline: Not logged in. Run /login and select Cline.";
+  }
+
+  // getApiKey() refreshes the token first if it is due
+  const apiKey = await storage.getApiKey("cline");
+  if (!apiKey) {
+    throw new Error("Cline token expired and could not be refreshed. Run /login and select Cline to sign in again.");
+  }
+
+  const user = await fetchClineAccountJson("/users/me", apiKey);
+  const organizations: any[] = Array.isArray(user?.organizations) ? user.organizations : [];
+  const activeOrganization = organizations.find(org => org?.active);
+  const organizationId = pickString(activeOrganization?.organizationId, activeOrganization?.id);
+
+  let balance: string | undefined;
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
-    const response = await fetch(url, { signal: controller.signal });
-    clearTimeout(timeout);
-    return response;
-  } catch (e) {
-    return null;
+    const balanceData = organizationId
+      ? await fetchClineAccountJson(`/organizations/${encodeURIComponent(organizationId)}/balance`, apiKey)
+      : user?.id ? await fetchClineAccountJson(`/users/${encodeURIComponent(user.id)}/balance`, apiKey) : null;
+    balance = formatClineBalance(balanceData?.balance) ?? "unknown";
+  } catch (error) {
+    balance = `unavailable (${error instanceof Error ? error.message : String(error)})`;
   }
+
+  // Re-read: getApiKey() may have refreshed the credentials
+  const current = getClineCredentials(storage) || credentials;
+  const tokenExpires = typeof current.tokenExpires === "number" ? current.tokenExpires : current.expires;
+  const name = pickString(user?.displayName, user?.name);
+  const email = pickString(user?.email);
+  const account = getActiveClineAccount(storage);
+
+  const lines = ["Cline account:"];
+  if (account) lines.push(`  Saved as: ${account}`);
+  lines.push(`  User: ${name && email ? `${name} <${email}>` : name || email || "unknown"}`);
+  lines.push(`  Organization: ${pickString(activeOrganization?.name) || "personal"}`);
+  lines.push(`  Balance: ${balance}`);
+  lines.push(`  Token expires: ${new Date(tokenExpires).toLocaleString()} (in ${formatAge(tokenExpires - Date.now())})`);
+  return lines.join("\n");
 }
 
-async function fetchModels(): Promise<any[]> {
-  const models: any[] = [];
-  let knownFreeIds: string[] = [];
+type DoctorCheck = { name: string; status: "pass" | "warn" | "fail"; detail: string };
 
-  // 1. Dynamically fetch the list of "free" models from Cline's GitHub source
-  // Source: https://github.com/cline/cline/blob/main/webview-ui/src/components/settings/OpenRouterModelPicker.tsx
-  try {
-    const freeModelsUrl = "https://raw.githubusercontent.com/cline/cline/main/webview-ui/src/components/settings/OpenRouterModelPicker.tsx";
-    const response = await fetchWithTimeout(freeModelsUrl, 5000);
-    if (response?.ok) {
-      const text = await response.text();
-      // Extract the freeModels array - look for "export const freeModels = [" followed by objects
-      // Note: The array ends with ] not ]; (no semicolon in the TypeScript source)
-      const freeModelsMatch = text.match(/export\s+const\s+freeModels\s*=\s*\[([\s\S]*?)\]\s*\n/);
-      if (freeModelsMatch) {
-        const freeSection = freeModelsMatch[1];
-        // Find all id fields in the free models
-        const idMatches = [...freeSection.matchAll(/id:\s*["']([^"']+)["']/g)];
-        for (const match of idMatches) {
-          knownFreeIds.push(match[1]);
-        }
-      }
-    }
-  } catch (e) {
-    // Silently fail - we'll use empty models if GitHub is unreachable
+// Reachability of an endpoint: any HTTP response counts, only network errors/timeouts fail
+async function checkReachable(name: string, url: string, timeoutMs: number): Promise<DoctorCheck> {
+  if (isOfflineMode()) {
+    return { name, status: "warn", detail: "skipped (offline mode)" };
   }
+  const startedAt = Date.now();
+  const response = await fetchWithTimeout(url, timeoutMs, { method: "HEAD" });
+  if (!response) {
+    return { name, status: "fail", detail: `unreachable within ${formatAge(timeoutMs)} (${new URL(url).host})` };
+  }
+  const detail = `HTTP ${response.status} in ${Date.now() - startedAt}ms (${new URL(url).host})`;
+  return { name, status: response.status >= 500 ? "warn" : "pass", detail };
+}
 
-  // 2. Fetch OpenRouter metadata (for model details)
-  let openRouterModels: any[] = [];
+async function checkCallbackPorts(): Promise<DoctorCheck> {
+  const name = "Callback port";
+  const ports = clineConfig.callbackPorts;
+  const server = http.createServer();
   try {
-    const response = await fetchWithTimeout("https://openrouter.ai/api/v1/models", 8000);
-    if (response?.ok) {
-      const data = await response.json();
-      openRouterModels = (data as any).data || [];
-    }
-  } catch (e) {
-    // Silently fail - we'll use defaults for model info
+    const port = await listenOnAvailablePort(server, ports, clineConfig.callbackBindAddress);
+    const detail = `${clineConfig.callbackBindAddress}:${port} is free`;
+    return port === ports[0]
+      ? { name, status: "pass", detail }
+      : { name, status: "warn", detail: `${ports[0]} is in use, login will fall back to ${detail}` };
+  } catch (error) {
+    return { name, status: "fail", detail: error instanceof Error ? error.message : String(error) };
+  } finally {
+    server.close();
   }
+}
 
-  // 3. Merge and validate - include all knownFreeIds, even if not in OpenRouter
-  for (const id of knownFreeIds) {
-    const info = openRouterModels.find((m: any) => m.id === id);
-    
-    // Default values (latest standards)
-    let isReasoning = false;
-    let contextWindow = 128000;
-    let maxTokens = 8192;
-    let name = `${extractNameFromId(id)} (Cline)`;
-    let input = ["text"];
-    let cost = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+function checkLogin(ctx: ExtensionContext): DoctorCheck {
+  const name = "Login";
+  const credentials = getClineCredentials(ctx.modelRegistry.authStorage);
+  if (!credentials) {
+    return { name, status: "fail", detail: "not logged in (run /login and select Cline)" };
+  }
+  const account = getActiveClineAccount(ctx.modelRegistry.authStorage);
+  const who = account ? `logged in as account "${account}"` : "logged in";
+  const tokenExpires = typeof credentials.tokenExpires === "number" ? credentials.tokenExpires : credentials.expires;
+  const remaining = tokenExpires - Date.now();
+  if (!Number.isFinite(remaining)) {
+    return { name, status: "warn", detail: `${who}, token expiry unknown` };
+  }
+  if (remaining <= 0) {
+    return { name, status: "warn", detail: `${who}, access token expired ${formatAge(-remaining)} ago (refreshed on next request)` };
+  }
+  return { name, status: "pass", detail: `${who}, access token expires in ${formatAge(remaining)}` };
+}
 
-    if (info) {
-       name = `${info.name} (Cline)`;
-       
-       // Detect Reasoning
-       if (info.supported_parameters?.includes("include_reasoning") || 
-           info.supported_parameters?.includes("reasoning") ||
-           info.architecture?.instruct_type === "reasoning") {
-         isReasoning = true;
-       }
-       
-       // Detect Vision
-       if (info.architecture?.modality?.includes("image")) {
-         input = ["text", "image"];
-       }
+function checkApiBase(): DoctorCheck {
+  const name = "API base";
+  const origin = loadedClineConfig.origins.apiBase;
+  if (origin === "default") {
+    return { name, status: "pass", detail: `${clineConfig.apiBase} (default)` };
+  }
+  const source = origin === "env" ? "PI_CLINE_API_BASE" : `${origin} config`;
+  return { name, status: "warn", detail: `overridden by ${source}: ${clineConfig.apiBase}` };
+}
 
-       contextWindow = info.context_length || contextWindow;
-       maxTokens = info.top_provider?.max_completion_tokens || maxTokens;
+function checkConfig(): DoctorCheck {
+  const warnings = loadedClineConfig.warnings;
+  return warnings.length === 0
+    ? { name: "Config", status: "pass", detail: "no invalid settings" }
+    : { name: "Config", status: "warn", detail: `${warnings.length} ignored setting(s): ${warnings.join("; ")}` };
+}
 
-       // Parse costs (per million tokens)
-       const inputCost = parseFloat(info.pricing?.prompt || "0") * 1000000;
-       const outputCost = parseFloat(info.pricing?.completion || "0") * 1000000;
-       const cacheReadCost = parseFloat(info.pricing?.input_cache_read || "0") * 1000000;
-       const cacheWriteCost = parseFloat(info.pricing?.input_cache_write || "0") * 1000000;
+function checkScaffold(): DoctorCheck {
+  const source = capturedScaffolds[clineMode]?.source;
+  return source
+    ? { name: "Scaffold", status: "pass", detail: `${clineMode} mode block from debug capture ${source}` }
+    : { name: "Scaffold", status: "warn", detail: `built-in ${clineMode} mode block (no usable debug capture found)` };
+}
 
-       // All Cline free models have zero cost
-       cost = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
-    } else {
-      // Model not found on OpenRouter - use safe defaults
-      // All Cline free models have zero cost
-      cost = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
-    }
+function checkModelCache(): DoctorCheck {
+  const name = "Model cache";
+  if (lastKnownModels.length === 0 || lastModelsTimestamp === null) {
+    return { name, status: "fail", detail: "no models known yet (run /cline-models refresh)" };
+  }
+  const age = Date.now() - lastModelsTimestamp;
+  const detail = `${lastKnownModels.length} models, updated ${formatAge(age)} ago${isOfflineMode() ? " (offline mode)" : ""}`;
+  return age < modelsCacheTtlMs()
+    ? { name, status: "pass", detail }
+    : { name, status: "warn", detail: `${detail}, older than the ${clineConfig.modelsTtlMinutes}m TTL` };
+}
 
-    models.push({
-      id: id,
-      name: name,
-      reasoning: isReasoning,
-      input: input,
-      cost: cost,
-      contextWindow: contextWindow,
-      maxTokens: maxTokens,
-      compat: {
-        supportsStore: false,
-        supportsDeveloperRole: false,
-        maxTokensField: "max_tokens" as const,
-      },
-    });
+function checkContextHook(ctx: ExtensionContext): DoctorCheck {
+  const name = "Context hook";
+  const model = ctx.model ? `${ctx.model.provider}/${ctx.model.id}` : "no model selected";
+  if (!isLikelyClineProvider(ctx)) {
+    return { name, status: "warn", detail: `inactive for ${model} (not detected as a Cline model)` };
+  }
+  const strategy = `context strategy: ${resolveContextStrategy(ctx.model?.id)}`;
+  return lastContextHookAt
+    ? { name, status: "pass", detail: `active for ${model} (${strategy}), last ran ${formatAge(Date.now() - lastContextHookAt)} ago` }
+    : { name, status: "pass", detail: `active for ${model} (${strategy}, no request sent yet)` };
+}
+
+async function runClineDoctor(ctx: ExtensionContext): Promise<DoctorCheck[]> {
+  const [callbackPort, github, openRouter, clineApi] = await Promise.all([
+    checkCallbackPorts(),
+    checkReachable("GitHub", GITHUB_FREE_MODELS_URL, clineConfig.catalogTimeoutMs),
+    checkReachable("OpenRouter", OPENROUTER_MODELS_URL, clineConfig.openRouterTimeoutMs),
+    checkReachable("Cline API", `${clineConfig.apiBase}/models`, clineConfig.catalogTimeoutMs),
+  ]);
+
+  return [
+    checkLogin(ctx),
+    checkApiBase(),
+    checkConfig(),
+    callbackPort,
+    checkScaffold(),
+    checkModelCache(),
+    checkContextHook(ctx),
+    clineApi,
+    github,
+    openRouter,
+  ];
+}
+
+// Strip tokens and the home directory so the report can be pasted into an issue
+function redactSecrets(text: string): string {
+  return text
+    .replace(/workos:[^\s"',;)]+/g, "workos:[REDACTED]")
+    .replace(/(Bearer\s+)[^\s"',;)]+/gi, "$1[REDACTED]")
+    .replace(/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, "[REDACTED]")
+    .split(os.homedir()).join("~");
+}
+
+function formatDoctorReport(checks: DoctorCheck[]): string {
+  const width = Math.max(...checks.map(c => c.name.length));
+  const lines = checks.map(c => `[${c.status.toUpperCase()}] ${c.name.padEnd(width)}  ${c.detail}`);
+  const count = (status: DoctorCheck["status"]) => checks.filter(c => c.status === status).length;
+
+  return redactSecrets([
+    "Cline doctor",
+    `Node ${process.version}, ${process.platform} ${process.arch}`,
+    "",
+    ...lines,
+    "",
+    `${count("pass")} passed, ${count("warn")} warnings, ${count("fail")} failed`,
+  ].join("\n"));
+}
+
+// Where the Cline CLI keeps its login (checked in order when no file is given)
+const CLINE_CLI_AUTH_FILES = [
+  path.join(os.homedir(), ".cline", "data", "secrets.json"),
+  path.join(os.homedir(), ".cline", "secrets.json"),
+];
+
+// Find an access/refresh token pair anywhere in a credentials file.
+// Secret stores often keep the account as a JSON string, so strings are parsed too.
+function findClineTokenPair(value: unknown, depth = 0): { access?: string; refresh: string } | null {
+  if (depth > 6) return null;
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (!text.startsWith("{")) return null;
+    try {
+      return findClineTokenPair(JSON.parse(text), depth + 1);
+    } catch {
+      return null;
+    }
   }
+  if (!value || typeof value !== "object") return null;
 
-  return models;
+  const record = value as any;
+  const refresh = pickString(record.refreshToken, record.refresh_token, record.refresh);
+  if (refresh) {
+    const access = pickString(record.accessToken, record.access_token, record.access, record.idToken);
+    return { access: access?.replace(/^workos:/, ""), refresh };
+  }
+  for (const child of Object.values(record)) {
+    const found = findClineTokenPair(child, depth + 1);
+    if (found) return found;
+  }
+  return null;
 }
 
-function extractNameFromId(id: string): string {
-  const parts = id.split("/");
-  const name = parts[1] || parts[0];
-  return name.split(/[-_]/).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+// Import a Cline login from a file (or the Cline CLI config), validated with a refresh
+async function importClineCredentials(fileArg: string, cwd: string): Promise<{ file: string; credentials: OAuthCredentials }> {
+  const candidates = fileArg ? [path.resolve(cwd, expandHome(fileArg))] : CLINE_CLI_AUTH_FILES;
+  const file = candidates.find(candidate => fs.existsSync(candidate));
+  if (!file) {
+    throw new Error(fileArg
+      ? `File not found: ${candidates[0]}`
+      : `No Cline CLI login found (looked in ${CLINE_CLI_AUTH_FILES.join(", ")}). Pass a file: /cline-import-auth <path>`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const pair = findClineTokenPair(parsed);
+  if (!pair) {
+    throw new Error(`No refresh token found in ${file}`);
+  }
+
+  // The refreshed pair replaces the imported one (the access token may be expired)
+  const credentials = await refreshClineCredentials({ access: `workos:${pair.access || ""}`, refresh: pair.refresh, expires: 0 });
+  return { file, credentials };
 }
 
 function registerClineProvider(pi: ExtensionAPI, models: any[]) {
@@ -795,28 +4152,58 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
     reasoning: !!model.reasoning,
     input: Array.isArray(model.input) ? model.input : ["text"],
     cost: model.cost || { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
-    contextWindow: model.contextWindow || 128000,
-    maxTokens: model.maxTokens || 16384,
+    contextWindow: model.contextWindow || clineConfig.defaultContextWindow,
+    maxTokens: model.maxTokens || clineConfig.defaultMaxTokens,
     compat: model.compat,
   }));
 
   pi.registerProvider("cline", {
-    baseUrl: CLINE_API_BASE,
+    baseUrl: clineConfig.apiBase,
     authHeader: true,
-    api: "openai-completions",
+    api: CLINE_COMPLETIONS_API,
+    streamSimple: streamClineCompletions,
     headers: headers,
     models: validatedModels,
     oauth: {
       name: "Cline",
       async login(callbacks: OAuthLoginCallbacks): Promise<OAuthCredentials> {
-        const serverPort = 31234;
+        const loginTimeoutMs = clineConfig.loginTimeoutMs;
+        const bindAddress = clineConfig.callbackBindAddress;
+
+        // Start the local callback server for the browser to call back to.
+        // Requests are routed to callbackHandler once the login is waiting for a code.
+        let callbackHandler: http.RequestListener = (_req, res) => {
+          res.writeHead(503);
+          res.end("Not ready");
+        };
+        const callbackServer = http.createServer((req, res) => callbackHandler(req, res));
+        let server: http.Server | null = callbackServer;
+        let timeoutId: NodeJS.Timeout | null = null;
+
+        const closeCallbackServer = () => {
+          const activeServer = server;
+          if (activeServer) {
+            activeServer.close();
+            server = null;
+          }
+        };
+
+        // Bind to the first free configured port; callback_url/redirect_uri use the bound port
+        const serverPort = await listenOnAvailablePort(callbackServer, clineConfig.callbackPorts, bindAddress);
         const callbackUrl = `http://127.0.0.1:${serverPort}/auth`;
-        
+
+        // Bind the callback to this login with a random state, and the code to us with PKCE
+        const oauthState = crypto.randomBytes(16).toString("base64url");
+        const pkce = createPkcePair();
+
         // Build the auth URL
-        const authUrl = new URL(`${CLINE_API_BASE}/auth/authorize`);
+        const authUrl = new URL(`${clineConfig.apiBase}/auth/authorize`);
         authUrl.searchParams.set("client_type", "extension");
         authUrl.searchParams.set("callback_url", callbackUrl);
         authUrl.searchParams.set("redirect_uri", callbackUrl);
+        authUrl.searchParams.set("state", oauthState);
+        authUrl.searchParams.set("code_challenge", pkce.challenge);
+        authUrl.searchParams.set("code_challenge_method", "S256");
         
         let finalAuthUrl = authUrl.toString();
         try {
@@ -836,62 +4223,44 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
             console.error("[Cline] Failed to fetch initial auth redirect", e);
         }
 
-        // Start the local callback server for the browser to call back to
-        let server: http.Server | null = null;
-        let timeoutId: NodeJS.Timeout | null = null;
-
-        const closeCallbackServer = () => {
-          const activeServer = server;
-          if (activeServer) {
-            activeServer.close();
-            server = null;
-          }
-        };
-        
         const codePromise = new Promise<{ code: string; provider: string | null }>((resolve, reject) => {
-          server = http.createServer((req, res) => {
+          callbackHandler = (req, res) => {
+            // The server closes after this request; a kept-alive connection would otherwise
+            // send the next login's callback to this finished handler
+            res.setHeader("Connection", "close");
             try {
               const reqUrl = new url.URL(req.url || "", `http://127.0.0.1:${serverPort}`);
               if (reqUrl.pathname === "/auth") {
                 const code = reqUrl.searchParams.get("code");
                 const provider = reqUrl.searchParams.get("provider");
+
+                // The state is checked first, so a forged request can't end the login
+                // or put its own text on the page
+                try {
+                  assertCallbackState(reqUrl.searchParams.get("state"), oauthState);
+                } catch (e) {
+                  res.writeHead(400, { "Content-Type": "text/html" });
+                  res.end(renderCallbackPage("✗ Authentication failed", (e as Error).message, true));
+                  throw e;
+                }
+
+                // Provider errors (e.g. cancelled SSO) fail the login right away
+                const callbackError = describeCallbackError(reqUrl.searchParams);
+                if (callbackError) {
+                  res.writeHead(400, { "Content-Type": "text/html" });
+                  res.end(renderCallbackPage("✗ Authentication failed", callbackError, true));
+                  throw new Error(`Cline login failed: ${callbackError}`);
+                }
                 
                 if (code) {
                   // Simple success page - only shown for same-machine auth
                   // For remote auth, browser will fail to connect to localhost anyway
                   res.writeHead(200, { "Content-Type": "text/html" });
-                  res.end(`<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>Pi - Cline Auth</title>
-  <style>
-    body { 
-      font-family: system-ui, sans-serif;
-      background: #18181e;
-      color: #b5bd68;
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      min-height: 100vh;
-      margin: 0;
-    }
-    .message { text-align: center; }
-    .message h1 { font-size: 24px; margin-bottom: 8px; }
-    .message p { color: #808080; }
-  </style>
-</head>
-<body>
-  <div class="message">
-    <h1>✓ Authenticated</h1>
-    <p>You can close this window</p>
-  </div>
-</body>
-</html>`);
+                  res.end(renderCallbackPage("✓ Authenticated", "You can close this window"));
                   resolve({ code, provider });
                 } else {
-                  res.writeHead(400);
-                  res.end("Missing code");
+                  res.writeHead(400, { "Content-Type": "text/html" });
+                  res.end(renderCallbackPage("✗ Authentication failed", "Missing code in callback", true));
                   reject(new Error("Missing code in callback"));
                 }
               } else {
@@ -907,24 +4276,18 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
                 timeoutId = null;
               }
             }
+          };
+
+          // Handle server errors after binding
+          callbackServer.on('error', (err: any) => {
+            reject(new Error(`Server error: ${err.message}`));
           });
           
-          // Handle server errors (e.g., port in use)
-          server.on('error', (err: any) => {
-            if (err.code === 'EADDRINUSE') {
-              reject(new Error(`Port ${serverPort} is already in use. If another login is in progress, please cancel it first.`));
-            } else {
-              reject(new Error(`Server error: ${err.message}`));
-            }
-          });
-          
-          server.listen(serverPort, "127.0.0.1");
-          
-          // Set up timeout - 5 minutes
+          // Set up timeout (loginTimeoutMs, 5 minutes by default)
           timeoutId = setTimeout(() => {
             closeCallbackServer();
             reject(new Error("TIMEOUT"));
-          }, 5 * 60 * 1000);
+          }, loginTimeoutMs);
           
           // Handle abort signal
           if (callbacks.signal) {
@@ -967,10 +4330,15 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
   3. The browser will fail to connect to localhost
      (only works for same-device auth)
   4. Copy the callback URL from the URL bar:
-     ${accent}http://127.0.0.1:31234/auth?code=${highlight}${bold}XXX${reset}${accent}&provider=...${reset}
+     ${accent}${callbackUrl}?code=${highlight}${bold}XXX${reset}${accent}&state=...&provider=...${reset}
   5. Paste the full callback URL here (preferred),
      or paste only ${highlight}${bold}XXX${reset}
-`
+${isLoopbackAddress(bindAddress) ? "" : `
+  ${label}Container/devcontainer:${reset}
+  The callback server listens on ${bindAddress}:${serverPort}.
+  Forward port ${accent}${serverPort}${reset} to your host (e.g. ${dim}docker run -p ${serverPort}:${serverPort}${reset}
+  or VS Code "Forward a Port") so the browser can reach ${callbackUrl}
+`}`
         });
         
         try {
@@ -1013,19 +4381,24 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
               
               // Extract code from callback URL if user pasted full URL
               if (userInput.startsWith("http://") || userInput.startsWith("https://")) {
+                let callback: URL;
                 try {
-                  const callback = new URL(userInput);
-                  const urlCode = callback.searchParams.get("code");
-                  const urlProvider = callback.searchParams.get("provider");
-                  if (urlCode) {
-                    code = urlCode;
-                    if (urlProvider) provider = urlProvider;
-                  } else {
-                    throw new Error("No code found in callback URL");
-                  }
+                  callback = new URL(userInput);
                 } catch (e) {
                   throw new Error("Invalid callback URL format");
                 }
+                const urlCode = callback.searchParams.get("code");
+                const urlProvider = callback.searchParams.get("provider");
+                assertCallbackState(callback.searchParams.get("state"), oauthState);
+                const callbackError = describeCallbackError(callback.searchParams);
+                if (callbackError) {
+                  throw new Error(`Cline login failed: ${callbackError}`);
+                }
+                if (!urlCode) {
+                  throw new Error("No code found in callback URL");
+                }
+                code = urlCode;
+                if (urlProvider) provider = urlProvider;
               } else {
                 // User pasted just the code
                 code = userInput;
@@ -1038,7 +4411,7 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
             provider = result.provider;
           }
 
-          const tokenUrl = `${CLINE_API_BASE}/auth/token`;
+          const tokenUrl = `${clineConfig.apiBase}/auth/token`;
           const providerCandidates: Array<string | null> = provider
             ? [provider]
             : [null, "google", "github", "microsoft", "authkit"];
@@ -1052,6 +4425,7 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
               code: code,
               client_type: "extension",
               redirect_uri: callbackUrl,
+              code_verifier: pkce.verifier,
             };
             if (providerCandidate) {
               payload.provider = providerCandidate;
@@ -1082,11 +4456,7 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
             throw new Error(`Token exchange failed${lastExchangeError ? ` (${lastExchangeError})` : ""}`);
           }
 
-          return {
-            access: `workos:${tokenData.accessToken}`,
-            refresh: tokenData.refreshToken,
-            expires: new Date(tokenData.expiresAt).getTime()
-          };
+          return toClineCredentials(tokenData.accessToken, tokenData.refreshToken, tokenData.expiresAt);
         } catch (error) {
           // Clean up server on error
           closeCallbackServer();
@@ -1100,7 +4470,7 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
               throw error;
             }
             if (error.message === "TIMEOUT") {
-              throw new Error("Authentication timed out. Please try again and complete the login within 5 minutes, or paste the callback URL manually.");
+              throw new Error(`Authentication timed out. Please try again and complete the login within ${formatAge(loginTimeoutMs)}, or paste the callback URL manually.`);
             }
           }
           throw error;
@@ -1108,25 +4478,7 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
       },
 
       async refreshToken(credentials: OAuthCredentials): Promise<OAuthCredentials> {
-        const refreshUrl = `${CLINE_API_BASE}/auth/refresh`;
-        const response = await fetch(refreshUrl, {
-            method: "POST",
-            headers: buildClineAuthHeaders(),
-            body: JSON.stringify({
-                refreshToken: credentials.refresh,
-                grantType: "refresh_token"
-            })
-        });
-
-        if (!response.ok) throw new Error("Failed to refresh token");
-        const data = await response.json() as any;
-        if (!data.success || !data.data) throw new Error("Invalid refresh response");
-        
-        return {
-            access: `workos:${data.data.accessToken}`,
-            refresh: data.data.refreshToken || credentials.refresh,
-            expires: new Date(data.data.expiresAt).getTime()
-        };
+        return refreshClineCredentials(credentials);
       },
 
       getApiKey(credentials: OAuthCredentials): string {
@@ -1135,3 +4487,28 @@ function registerClineProvider(pi: ExtensionAPI, models: any[]) {
     }
   });
 }
+
+// Internals exercised by the tests in test/
+export {
+  buildFileListing,
+  collapseContextMessagesForCline,
+  createModelSources,
+  estimateTextTokens,
+  fitTranscriptToBudget,
+  formatClineAccountInfo,
+  getClineErrorHint,
+  getRateLimitDelayMs,
+  loadModelSources,
+  loadScaffoldFromDebugCapture,
+  orderModelSources,
+  parseCatalogJson,
+  parseDelayHeader,
+  parseFreeModelsFromTsx,
+  parseJsLiteral,
+  registerClineProvider,
+  reloadClineConfig,
+  shapeContextMessagesForCline,
+  streamClineCompletions,
+  translateClineXmlTools,
+  USER_CONFIG_FILE,
+};
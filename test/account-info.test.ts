@@ -0,0 +1,111 @@
+import type { AuthStorage } from "@mariozechner/pi-coding-agent";
+import { afterEach, describe, expect, it } from "vitest";
+import { readFixture, setEnv, startStandInServer, type StandInServer } from "./helpers";
+import { formatClineAccountInfo, reloadClineConfig } from "../index";
+
+const fixture = (name: string) => readFixture("account", name);
+
+// Stand-in for the Cline account API: routes map "METHOD path" to [status, fixture file]
+async function startAccountApi(routes: Record<string, [number, string]>): Promise<StandInServer> {
+  const server = await startStandInServer((req, res) => {
+    const route = routes[`${req.method} ${req.url.replace(/^\/api\/v1/, "")}`];
+    res.writeHead(route ? route[0] : 404, { "Content-Type": "application/json" });
+    res.end(route ? fixture(route[1]) : "{}");
+  });
+  restoreEnv = setEnv({ PI_CLINE_API_BASE: `${server.url}/api/v1` });
+  reloadClineConfig(process.cwd());
+  return server;
+}
+
+// Minimal auth storage holding a Cline login
+function createStorage(options: { apiKey?: string | undefined; loggedIn?: boolean } = {}): Pick<AuthStorage, "get" | "getApiKey"> {
+  const tokenExpires = Date.now() + 2 * 60 * 60 * 1000;
+  const apiKey = "apiKey" in options ? options.apiKey : "workos:access-1";
+  return {
+    get: (provider: string) => provider === "cline" && options.loggedIn !== false
+      ? { type: "oauth", access: "workos:access-1", refresh: "refresh-1", expires: tokenExpires - 300_000, tokenExpires }
+      : undefined,
+    getApiKey: async () => apiKey,
+  };
+}
+
+let server: StandInServer | null = null;
+let restoreEnv: (() => void) | null = null;
+
+afterEach(async () => {
+  restoreEnv?.();
+  restoreEnv = null;
+  reloadClineConfig(process.cwd());
+  await server?.close();
+  server = null;
+});
+
+describe("formatClineAccountInfo", () => {
+  it("shows the user, active organization and organization balance", async () => {
+    server = await startAccountApi({
+      "GET /users/me": [200, "user-with-org.json"],
+      "GET /organizations/org-1/balance": [200, "balance.json"],
+    });
+
+    const info = await formatClineAccountInfo(createStorage());
+
+    expect(info).toContain("User: Ada Lovelace <ada@example.com>");
+    expect(info).toContain("Organization: Acme Inc");
+    expect(info).toContain("Balance: 12.5");
+    expect(info).toMatch(/Token expires: .+ \(in 1h 59m\)/);
+    expect(server.requests.map(r => r.url)).toEqual(["/api/v1/users/me", "/api/v1/organizations/org-1/balance"]);
+    for (const request of server.requests) {
+      expect(request.headers.authorization).toBe("Bearer workos:access-1");
+      expect(request.headers["x-platform"]).toBeTruthy();
+    }
+  });
+
+  it("uses the personal balance endpoint without an active organization", async () => {
+    server = await startAccountApi({
+      "GET /users/me": [200, "user-personal.json"],
+      "GET /users/user-2/balance": [200, "personal-balance.json"],
+    });
+
+    const info = await formatClineAccountInfo(createStorage());
+
+    expect(info).toContain("User: Grace Hopper <grace@example.com>");
+    expect(info).toContain("Organization: personal");
+    expect(info).toContain("Balance: 0.75");
+    expect(server.requests.map(r => r.url)).toEqual(["/api/v1/users/me", "/api/v1/users/user-2/balance"]);
+  });
+
+  it("asks to log in again when the token is rejected with 401", async () => {
+    server = await startAccountApi({ "GET /users/me": [401, "unauthorized.json"] });
+
+    await expect(formatClineAccountInfo(createStorage())).rejects.toThrow(
+      "Cline token expired or was revoked. Run /login and select Cline to sign in again.",
+    );
+  });
+
+  it("still shows the account when the balance endpoint fails", async () => {
+    server = await startAccountApi({
+      "GET /users/me": [200, "user-with-org.json"],
+      "GET /organizations/org-1/balance": [500, "unauthorized.json"],
+    });
+
+    const info = await formatClineAccountInfo(createStorage());
+
+    expect(info).toContain("User: Ada Lovelace <ada@example.com>");
+    expect(info).toMatch(/Balance: unavailable \(Cline API request failed \(\/organizations\/org-1\/balance: 500/);
+  });
+
+  it("reports a token that could not be refreshed", async () => {
+    server = await startAccountApi({});
+
+    await expect(formatClineAccountInfo(createStorage({ apiKey: undefined }))).rejects.toThrow(/could not be refreshed/);
+    expect(server.requests).toEqual([]);
+  });
+
+  it("reports when nobody is logged in", async () => {
+    server = await startAccountApi({});
+
+    expect(await formatClineAccountInfo(createStorage({ loggedIn: false }))).toBe(
+      "Cline: Not logged in. Run /login and select Cline.",
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+// Extension handlers and commands registered on a stand-in pi, keyed by name
+const handlers: Record<string, (event: any, ctx: any) => Promise<void>> = {};
+const commands: Record<string, { handler: (args: string, ctx: any) => Promise<void> }> = {};
+
+beforeAll(async () => {
+  const { default: extension } = await import("../index");
+  const pi: any = new Proxy({
+    on: (event: string, handler: any) => (handlers[event] = handler),
+    registerCommand: (name: string, command: any) => (commands[name] = command),
+  }, { get: (target: any, key) => target[key] ?? (() => {}) });
+  extension(pi);
+});
+
+function modeEntry(mode: string): any {
+  return { type: "custom", customType: "cline-mode", data: { mode } };
+}
+
+// Session context whose active branch holds the given entries; the whole session holds more
+function createContext(branch: any[], entries: any[] = branch): { ctx: any; notifications: string[]; status: Array<string | undefined> } {
+  const notifications: string[] = [];
+  const status: Array<string | undefined> = [];
+  const ctx = {
+    sessionManager: { getBranch: () => branch, getEntries: () => entries },
+    ui: { notify: (message: string) => notifications.push(message), setStatus: (_key: string, text?: string) => status.push(text) },
+  };
+  return { ctx, notifications, status };
+}
+
+describe("cline mode", () => {
+  it("restores the mode of the branch navigated to", async () => {
+    const plan = createContext([modeEntry("plan")], [modeEntry("plan"), modeEntry("act")]);
+    await handlers.session_tree({ type: "session_tree", newLeafId: "a", oldLeafId: "b" }, plan.ctx);
+    await commands["cline-mode"].handler("", plan.ctx);
+    expect(plan.status).toEqual(["Cline: plan mode"]);
+    expect(plan.notifications).toEqual(["Cline: PLAN mode (switch with /cline-mode plan|act)"]);
+
+    // Entries on other branches don't count, however recent
+    const act = createContext([], [modeEntry("act"), modeEntry("plan")]);
+    await handlers.session_tree({ type: "session_tree", newLeafId: "b", oldLeafId: "a" }, act.ctx);
+    await commands["cline-mode"].handler("", act.ctx);
+    expect(act.status).toEqual([undefined]);
+    expect(act.notifications).toEqual(["Cline: ACT mode (switch with /cline-mode plan|act)"]);
+  });
+});
@@ -0,0 +1,73 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { setEnv } from "./helpers";
+import { reloadClineConfig, USER_CONFIG_FILE } from "../index";
+
+function writeJson(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data));
+}
+
+const projects: string[] = [];
+
+function createProject(config: unknown): string {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "pi-cline-project-"));
+  projects.push(cwd);
+  writeJson(path.join(cwd, ".pi", "cline.json"), config);
+  return cwd;
+}
+
+let restoreEnv: (() => void) | null = null;
+
+afterEach(() => {
+  restoreEnv?.();
+  restoreEnv = null;
+  fs.rmSync(USER_CONFIG_FILE, { force: true });
+  for (const cwd of projects.splice(0)) fs.rmSync(cwd, { recursive: true, force: true });
+  reloadClineConfig(process.cwd());
+});
+
+describe("loadClineConfig", () => {
+  it("lets a project override ordinary settings", () => {
+    writeJson(USER_CONFIG_FILE, { catalogTimeoutMs: 2000, rateLimitMaxRetries: 1 });
+    const loaded = reloadClineConfig(createProject({ catalogTimeoutMs: 3000 }));
+
+    expect(loaded.config.catalogTimeoutMs).toBe(3000);
+    expect(loaded.origins.catalogTimeoutMs).toBe("project");
+    expect(loaded.config.rateLimitMaxRetries).toBe(1);
+    expect(loaded.origins.rateLimitMaxRetries).toBe("user");
+    expect(loaded.warnings).toEqual([]);
+  });
+
+  it("ignores credential- and network-sensitive settings in project files", () => {
+    const cwd = createProject({
+      apiBase: "https://attacker.example/api/v1",
+      captureDir: "/tmp/captures",
+      callbackBindAddress: "0.0.0.0",
+      xmlTools: true,
+    });
+    const loaded = reloadClineConfig(cwd);
+
+    expect(loaded.config.apiBase).toBe("https://api.cline.bot/api/v1");
+    expect(loaded.config.captureDir).toBeNull();
+    expect(loaded.config.callbackBindAddress).toBe("127.0.0.1");
+    expect(loaded.config.xmlTools).toBe(false);
+    expect(loaded.origins.apiBase).toBe("default");
+    expect(loaded.warnings).toHaveLength(4);
+    expect(loaded.warnings[0]).toContain('"apiBase" can only be set in');
+  });
+
+  it("accepts sensitive settings from the user file and the environment", () => {
+    writeJson(USER_CONFIG_FILE, { apiBase: "https://proxy.example/api/v1", callbackBindAddress: "0.0.0.0" });
+    restoreEnv = setEnv({ PI_CLINE_CAPTURE_DIR: "/tmp/cline-captures" });
+    const loaded = reloadClineConfig(createProject({ apiBase: "https://attacker.example/api/v1" }));
+
+    expect(loaded.config.apiBase).toBe("https://proxy.example/api/v1");
+    expect(loaded.origins.apiBase).toBe("user");
+    expect(loaded.config.callbackBindAddress).toBe("0.0.0.0");
+    expect(loaded.config.captureDir).toBe("/tmp/cline-captures");
+    expect(loaded.origins.captureDir).toBe("env");
+  });
+});
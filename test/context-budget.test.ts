@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import "./helpers";
+import { collapseContextMessagesForCline, estimateTextTokens, fitTranscriptToBudget, shapeContextMessagesForCline } from "../index";
+
+const SCAFFOLD = { taskProgress: "", environmentDetails: "" };
+
+// A long tool output whose first and last lines name it
+function longOutput(name: string, chars: number): string {
+  const filler = Array.from({ length: Math.ceil(chars / 40) }, (_, i) => `${name} line ${i}`.padEnd(39, ".")).join("\n");
+  return `${name} start\n${filler.slice(0, chars)}\n${name} end`;
+}
+
+// A user turn followed by one bash call and result per output
+function toolSession(outputs: Record<string, string>): any[] {
+  const messages: any[] = [{ role: "user", content: "Check the logs", timestamp: 0 }];
+  for (const [name, output] of Object.entries(outputs)) {
+    messages.push({
+      role: "assistant",
+      content: [{ type: "toolCall", id: `call-${name}`, name: "bash", arguments: { command: `cat ${name}.log` } }],
+    });
+    messages.push({ role: "toolResult", toolCallId: `call-${name}`, toolName: "bash", content: [{ type: "text", text: output }] });
+  }
+  return messages;
+}
+
+// Text of the wrapped user message
+function transcriptOf(messages: any[]): string {
+  const user = messages.find(message => message.role === "user");
+  return user.content.map((part: any) => part.text).join("\n");
+}
+
+describe("fitTranscriptToBudget", () => {
+  it("leaves a transcript that fits unchanged", () => {
+    const transcript = transcriptOf(collapseContextMessagesForCline(toolSession({ a: "short" }), SCAFFOLD));
+    expect(fitTranscriptToBudget(transcript, 10_000)).toBe(transcript);
+  });
+
+  it("summarises older results before touching the newest ones", () => {
+    const messages = toolSession({
+      old: longOutput("old", 20_000),
+      a: longOutput("a", 12_000),
+      b: longOutput("b", 12_000),
+      c: longOutput("c", 12_000),
+    });
+    // Eliding the old result is not enough; summarising it is
+    const budget = { contextWindow: 15_000, maxTokens: 4000, systemPromptTokens: 0 };
+
+    const transcript = transcriptOf(collapseContextMessagesForCline(messages, SCAFFOLD, budget));
+
+    expect(transcript).toContain("(output omitted to fit the context window:");
+    expect(transcript).not.toContain("old start");
+    for (const name of ["a", "b", "c"]) {
+      expect(transcript).toContain(longOutput(name, 12_000));
+    }
+  });
+
+  it("elides the protected results when they alone exceed the window", () => {
+    // A 40k window with three 50k-character results
+    const outputs = { a: longOutput("a", 50_000), b: longOutput("b", 50_000), c: longOutput("c", 50_000) };
+    const budget = { contextWindow: 40_000, maxTokens: 4096, systemPromptTokens: 1000 };
+
+    const transcript = transcriptOf(collapseContextMessagesForCline(toolSession(outputs), SCAFFOLD, budget));
+
+    expect(estimateTextTokens(transcript)).toBeLessThan(budget.contextWindow - budget.maxTokens - budget.systemPromptTokens);
+    expect(transcript).not.toContain("(output omitted");
+    for (const name of Object.keys(outputs)) {
+      expect(transcript).toContain(`${name} start`);
+      expect(transcript).toContain(`${name} end`);
+    }
+    // Oldest first, and only as many as needed
+    expect(transcript.match(/characters omitted to fit the context window/g)).toHaveLength(1);
+    expect(transcript).toContain(outputs.b);
+    expect(transcript).toContain(outputs.c);
+  });
+
+  it("elides every protected result when needed", () => {
+    const outputs = { a: longOutput("a", 50_000), b: longOutput("b", 50_000), c: longOutput("c", 50_000) };
+    const budget = { contextWindow: 12_000, maxTokens: 4000, systemPromptTokens: 1000 };
+
+    const transcript = transcriptOf(collapseContextMessagesForCline(toolSession(outputs), SCAFFOLD, budget));
+
+    expect(transcript.match(/characters omitted to fit the context window/g)).toHaveLength(3);
+    expect(transcript).toContain("Check the logs");
+  });
+});
+
+describe("native and hybrid budgets", () => {
+  // Text of every message, native or collapsed
+  function allText(messages: any[]): string {
+    return messages.map(message => message.content.map((part: any) => part.text ?? "").join("\n")).join("\n");
+  }
+
+  it("shrinks older native tool results to fit the window", () => {
+    const outputs = { old: longOutput("old", 40_000), a: longOutput("a", 8000), b: longOutput("b", 8000), c: longOutput("c", 8000) };
+    const budget = { contextWindow: 12_000, maxTokens: 2000, systemPromptTokens: 0 };
+
+    const messages = shapeContextMessagesForCline(toolSession(outputs), SCAFFOLD, budget, "native");
+
+    expect(estimateTextTokens(allText(messages))).toBeLessThan(budget.contextWindow - budget.maxTokens);
+    expect(messages.filter(message => message.role === "toolResult")).toHaveLength(4);
+    // Head/tail elision of the oldest result is enough here
+    expect(allText(messages).match(/characters omitted to fit the context window/g)).toHaveLength(1);
+    expect(allText(messages)).toMatch(/old start[\s\S]*characters omitted[\s\S]*old end/);
+    for (const name of ["a", "b", "c"]) {
+      expect(allText(messages)).toContain(outputs[name as keyof typeof outputs]);
+    }
+  });
+
+  it("keeps hybrid requests inside the window when the current turn alone is too large", () => {
+    const messages = [
+      ...toolSession({ earlier: longOutput("earlier", 8000) }),
+      ...toolSession({ a: longOutput("a", 50_000), b: longOutput("b", 50_000) }),
+    ];
+    const budget = { contextWindow: 20_000, maxTokens: 2000, systemPromptTokens: 0 };
+
+    const shaped = shapeContextMessagesForCline(messages, SCAFFOLD, budget, "hybrid");
+
+    expect(estimateTextTokens(allText(shaped))).toBeLessThan(budget.contextWindow - budget.maxTokens);
+    expect(shaped.filter(message => message.role === "toolResult")).toHaveLength(2);
+    expect(allText(shaped)).toMatch(/a start[\s\S]*characters omitted[\s\S]*a end/);
+  });
+});
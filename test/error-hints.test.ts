@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { readFixture, sendJson, startStandInServer, type StandInServer } from "./helpers";
+import { getClineErrorHint, streamClineCompletions } from "../index";
+
+let server: StandInServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+// Error message Pi sees when the completions endpoint answers with the fixture response
+async function errorMessageFor(fixture: string): Promise<string> {
+  const { status, headers, body } = JSON.parse(readFixture("errors", fixture));
+  server = await startStandInServer((_req, res) => sendJson(res, status, body, headers));
+
+  const model: any = {
+    id: "test/model",
+    name: "Test Model",
+    api: "openai-completions",
+    provider: "cline",
+    baseUrl: server.url,
+    reasoning: false,
+    input: ["text"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: 32000,
+    maxTokens: 4096,
+  };
+  const context: any = { messages: [{ role: "user", content: "Hi", timestamp: Date.now() }] };
+  for await (const event of streamClineCompletions(model, context, { apiKey: "workos:test" })) {
+    if (event.type === "error") return event.error.errorMessage || "";
+  }
+  throw new Error(`${fixture} did not fail`);
+}
+
+describe("getClineErrorHint", () => {
+  it.each([
+    ["400-empty-content.json", "Cline rejected a message with empty content."],
+    ["401-token-expired.json", "Your Cline login has expired or was revoked."],
+    ["402-insufficient-credits.json", "Your Cline account is out of credits."],
+    ["403-access-forbidden.json", "Cline refused the request (403). Run /reload"],
+    ["403-model-not-allowed.json", "Cline does not allow this model for your account."],
+    ["404-model-not-found.json", "This model is no longer offered by Cline."],
+    ["429-rate-limited.json", "Cline is rate limiting this model."],
+  ])("explains %s", async (fixture, hint) => {
+    expect(getClineErrorHint(await errorMessageFor(fixture))).toContain(hint);
+  });
+
+  it("has no hint for other errors", async () => {
+    expect(getClineErrorHint(await errorMessageFor("500-internal-error.json"))).toBeNull();
+  });
+});
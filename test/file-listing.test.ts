@@ -0,0 +1,47 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildFileListing } from "../index";
+
+let workspace: string;
+
+function git(...args: string[]): void {
+  execFileSync("git", args, { cwd: workspace, stdio: "ignore" });
+}
+
+beforeEach(() => {
+  workspace = fs.mkdtempSync(path.join(os.tmpdir(), "pi-cline-workspace-"));
+});
+
+afterEach(() => {
+  fs.rmSync(workspace, { recursive: true, force: true });
+});
+
+describe("buildFileListing", () => {
+  it("lists git files, reusing the listing until the git index changes", async () => {
+    git("init", "-q");
+    fs.mkdirSync(path.join(workspace, "src"));
+    fs.writeFileSync(path.join(workspace, "src", "a.ts"), "");
+    fs.writeFileSync(path.join(workspace, ".gitignore"), "ignored.txt\n");
+    fs.writeFileSync(path.join(workspace, "ignored.txt"), "");
+
+    expect((await buildFileListing(workspace)).split("\n")).toEqual([".gitignore", "src/a.ts"]);
+
+    // An untracked file in a subdirectory touches neither cwd nor the index
+    fs.writeFileSync(path.join(workspace, "src", "b.ts"), "");
+    expect(await buildFileListing(workspace)).not.toContain("src/b.ts");
+
+    git("add", "src/b.ts");
+    expect(await buildFileListing(workspace)).toContain("src/b.ts");
+  });
+
+  it("walks directories outside git and refreshes when cwd changes", async () => {
+    fs.writeFileSync(path.join(workspace, "one.txt"), "");
+    expect(await buildFileListing(workspace)).toBe("one.txt");
+
+    fs.writeFileSync(path.join(workspace, "two.txt"), "");
+    expect(await buildFileListing(workspace)).toBe("one.txt\ntwo.txt");
+  });
+});
@@ -0,0 +1,43 @@
+// Hand-written fixture: OpenRouterModelPicker.tsx after freeModels entries gained full model info,
+// with nested `info` objects, template strings, comments and trailing commas.
+import React from "react"
+import { ModelInfo } from "@shared/api"
+
+const PROMO_END = "2026-03-01"
+
+export const freeModels = [
+	{
+		id: "stealth/giga-potato",
+		name: "Giga Potato",
+		/* stealth model, details withheld */
+		description: `A stealth model
+available for free for a limited time.`,
+		contextWindow: 256_000,
+		maxTokens: 32 * 1024,
+		info: {
+			supportsImages: true,
+			supportsReasoning: false, // no thinking budget
+		},
+		freeUntil: "2026-03-01",
+		promo: "Free for a limited time",
+	},
+	{
+		id: "x-ai/grok-code-fast-1",
+		name: 'xAI: Grok Code Fast 1',
+		description: "Fast reasoning model for agentic coding",
+		contextWindow: 256000,
+		maxTokens: 10_000,
+		supportsReasoning: true,
+		supportsImages: false,
+		endDate: `${PROMO_END}`,
+	},
+	{
+		id: "minimax/minimax-m2",
+		name: "MiniMax M2",
+		// context window from the provider page
+		contextWindow: 204_800,
+		maxTokens: 128_000,
+	},
+] as const
+
+export const OpenRouterModelPicker = () => <div>{freeModels.length}</div>
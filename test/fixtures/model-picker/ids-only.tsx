@@ -0,0 +1,29 @@
+// Hand-written fixture: OpenRouterModelPicker.tsx when freeModels only listed IDs and labels
+// (the layout the original `id:` regex was written for).
+import { VSCodeLink } from "@vscode/webview-ui-toolkit/react"
+import React, { useMemo, useState } from "react"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+
+export const freeModels = [
+	{
+		id: "x-ai/grok-code-fast-1",
+		label: "Grok Code Fast 1",
+	},
+	{
+		id: "minimax/minimax-m2",
+		label: "MiniMax M2",
+	},
+	{
+		id: "stealth/giga-potato",
+		label: "Giga Potato",
+	},
+]
+
+const OpenRouterModelPicker: React.FC<{ isPopup?: boolean }> = ({ isPopup }) => {
+	const { apiConfiguration } = useExtensionState()
+	const [searchTerm, setSearchTerm] = useState("")
+	const filtered = useMemo(() => freeModels.filter((m) => m.id.includes(searchTerm)), [searchTerm])
+	return <div>{filtered.length}</div>
+}
+
+export default OpenRouterModelPicker
@@ -0,0 +1,37 @@
+// Hand-written fixture: OpenRouterModelPicker.tsx with a typed freeModels declaration and values
+// the literal parser cannot evaluate (ternaries, arrow functions, references).
+import React from "react"
+import type { FreeModel } from "./types"
+import { isNightly } from "@/utils/env"
+
+const GROK_CONTEXT = 256_000
+
+export const freeModels: FreeModel[] = [
+	{
+		id: "x-ai/grok-code-fast-1",
+		name: "Grok Code Fast 1",
+		contextWindow: GROK_CONTEXT,
+		maxTokens: isNightly ? 16_000 : 10_000,
+		isAvailable: () => true,
+		supportsImages: false,
+	},
+	{
+		id: "moonshotai/kimi-k2",
+		name: "Kimi K2",
+		contextWindow: 131_072,
+		maxTokens: 8192,
+		format: (label: string, count: number) => `${label} (${count})`,
+		reasoning: true,
+	},
+	{
+		id: "z-ai/glm-4.6",
+		name: "GLM 4.6",
+		contextWindow: 200_000,
+		badge: isNightly ? "Nightly" : "Free",
+		...(isNightly ? { promo: "Nightly only" } : {}),
+	},
+] satisfies FreeModel[]
+
+export default function OpenRouterModelPicker() {
+	return <div>{freeModels.map((m) => m.name).join(", ")}</div>
+}
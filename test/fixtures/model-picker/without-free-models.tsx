@@ -0,0 +1,5 @@
+// Hand-written fixture: OpenRouterModelPicker.tsx after the free model list moved to another file.
+import React from "react"
+import { freeModels } from "@shared/freeModels"
+
+export const OpenRouterModelPicker = () => <div>{freeModels.length}</div>
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { readFixture } from "./helpers";
+import { parseFreeModelsFromTsx, parseJsLiteral } from "../index";
+
+const parseLiteral = (source: string) => parseJsLiteral(source, 0).value;
+
+describe("parseFreeModelsFromTsx", () => {
+  it("reads the IDs-only layout", () => {
+    expect(parseFreeModelsFromTsx(readFixture("model-picker", "ids-only.tsx"))).toEqual([
+      { id: "x-ai/grok-code-fast-1", name: "Grok Code Fast 1" },
+      { id: "minimax/minimax-m2", name: "MiniMax M2" },
+      { id: "stealth/giga-potato", name: "Giga Potato" },
+    ]);
+  });
+
+  it("keeps full entries with nested info, template strings and comments", () => {
+    expect(parseFreeModelsFromTsx(readFixture("model-picker", "full-entries.tsx"))).toEqual([
+      {
+        id: "stealth/giga-potato",
+        name: "Giga Potato",
+        description: "A stealth model\navailable for free for a limited time.",
+        contextWindow: 256000,
+        maxTokens: 32768,
+        reasoning: false,
+        input: ["text", "image"],
+        freeUntil: "2026-03-01",
+        promo: "Free for a limited time",
+      },
+      {
+        id: "x-ai/grok-code-fast-1",
+        name: "xAI: Grok Code Fast 1",
+        description: "Fast reasoning model for agentic coding",
+        contextWindow: 256000,
+        maxTokens: 10000,
+        reasoning: true,
+        input: ["text"],
+        // The interpolated endDate cannot be resolved
+      },
+      {
+        id: "minimax/minimax-m2",
+        name: "MiniMax M2",
+        contextWindow: 204800,
+        maxTokens: 128000,
+      },
+    ]);
+  });
+
+  it("turns unsupported values into undefined fields instead of failing the list", () => {
+    expect(parseFreeModelsFromTsx(readFixture("model-picker", "typed-with-expressions.tsx"))).toEqual([
+      // The referenced contextWindow and the ternary maxTokens are unknown
+      { id: "x-ai/grok-code-fast-1", name: "Grok Code Fast 1", input: ["text"] },
+      { id: "moonshotai/kimi-k2", name: "Kimi K2", contextWindow: 131072, maxTokens: 8192, reasoning: true },
+      { id: "z-ai/glm-4.6", name: "GLM 4.6", contextWindow: 200000 },
+    ]);
+  });
+
+  it("fails clearly when the file no longer declares freeModels", () => {
+    expect(() => parseFreeModelsFromTsx(readFixture("model-picker", "without-free-models.tsx"))).toThrow(
+      "freeModels array not found",
+    );
+  });
+});
+
+describe("parseJsLiteral", () => {
+  it("parses numbers with separators and arithmetic", () => {
+    expect(parseLiteral("[128_000, 128 * 1024, 0x10, -2, (1 + 2) * 3]")).toEqual([128000, 131072, 16, -2, 9]);
+  });
+
+  it("handles trailing commas, quoted keys, shorthand and method properties", () => {
+    expect(parseLiteral(`{ "a-b": 1, 'c': [1, 2,], short, method() { return 1 }, d: null, }`)).toEqual({
+      "a-b": 1,
+      c: [1, 2],
+      short: undefined,
+      d: null,
+    });
+  });
+
+  it("skips a ternary to the next delimiter", () => {
+    expect(parseLiteral("{ id: 'a', maxTokens: flag ? 1 : 2, name: 'b' }")).toEqual({
+      id: "a",
+      maxTokens: undefined,
+      name: "b",
+    });
+  });
+
+  it("skips arrow functions, including ones with commas and braces", () => {
+    expect(parseLiteral("{ fn: () => 1, g: (a, b) => { return [a, b] }, h: x => ({ y: x }), id: 'kept' }")).toEqual({
+      fn: undefined,
+      g: undefined,
+      h: undefined,
+      id: "kept",
+    });
+  });
+
+  it("treats templates with interpolations as unresolvable", () => {
+    expect(parseLiteral("{ plain: `2026-03-01`, until: `${END}`, label: `v${1 + 1}.0` }")).toEqual({
+      plain: "2026-03-01",
+      until: undefined,
+      label: undefined,
+    });
+  });
+
+  it("skips unsupported array elements without losing the rest", () => {
+    expect(parseLiteral("[1, cond ? 2 : 3, `t`, () => 4, 5]")).toEqual([1, undefined, "t", undefined, 5]);
+  });
+
+  it("still fails on input that cannot be skipped", () => {
+    expect(() => parseLiteral("{ id: 'unterminated }")).toThrow(/Unterminated string/);
+    expect(() => parseLiteral("{ id: 'a', name: (oops }")).toThrow(/Unbalanced/);
+  });
+});
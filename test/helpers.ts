@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll } from "vitest";
+
+// index.ts reads ~/.pi/agent and PI_CLINE_* at import time. Import this module first so
+// it sees a scratch home directory and a clean environment.
+export const TEST_HOME = fs.mkdtempSync(path.join(os.tmpdir(), "pi-cline-test-"));
+process.env.HOME = TEST_HOME;
+for (const key of Object.keys(process.env)) {
+  if (key.startsWith("PI_CLINE_")) delete process.env[key];
+}
+afterAll(() => fs.rmSync(TEST_HOME, { recursive: true, force: true }));
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+export function fixturePath(...parts: string[]): string {
+  return path.join(FIXTURES_DIR, ...parts);
+}
+
+export function readFixture(...parts: string[]): string {
+  return fs.readFileSync(fixturePath(...parts), "utf-8");
+}
+
+// Set environment variables for one test. Returns a function that restores them.
+export function setEnv(vars: Record<string, string | undefined>): () => void {
+  const previous = Object.fromEntries(Object.keys(vars).map(key => [key, process.env[key]]));
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+  apply(vars);
+  return () => apply(previous);
+}
+
+export type StandInRequest = {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+export type StandInServer = {
+  url: string;
+  requests: StandInRequest[];
+  close(): Promise<void>;
+};
+
+// Local HTTP stand-in for Cline endpoints. The handler sees each request with its body read.
+export async function startStandInServer(
+  handler: (req: StandInRequest, res: http.ServerResponse) => void | Promise<void>,
+): Promise<StandInServer> {
+  const requests: StandInRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", async () => {
+      const request = { method: req.method || "GET", url: req.url || "/", headers: req.headers, body };
+      requests.push(request);
+      try {
+        await handler(request, res);
+      } catch (error) {
+        res.writeHead(500);
+        res.end(String(error));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+export function sendJson(res: http.ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(data));
+}
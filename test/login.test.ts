@@ -0,0 +1,193 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { sendJson, setEnv, startStandInServer, type StandInServer } from "./helpers";
+import { registerClineProvider, reloadClineConfig, USER_CONFIG_FILE } from "../index";
+
+// Stand-in for Cline's auth endpoints: /auth/authorize hands out an IdP redirect,
+// /auth/token exchanges any code for a token pair.
+let auth: StandInServer;
+let restoreEnv: () => void;
+
+beforeEach(async () => {
+  auth = await startStandInServer((req, res) => {
+    const { pathname } = new URL(req.url, "http://stand-in");
+    if (pathname === "/api/v1/auth/authorize") {
+      sendJson(res, 200, { redirect_url: "https://idp.example/login?session=1" });
+    } else if (pathname === "/api/v1/auth/token") {
+      sendJson(res, 200, {
+        success: true,
+        data: { accessToken: "access-1", refreshToken: "refresh-1", expiresAt: new Date(Date.now() + 3600_000).toISOString() },
+      });
+    } else {
+      sendJson(res, 404, { error: "not found" });
+    }
+  });
+
+  // Keep clear of the default ports a running Pi may be using
+  fs.mkdirSync(path.dirname(USER_CONFIG_FILE), { recursive: true });
+  fs.writeFileSync(USER_CONFIG_FILE, JSON.stringify({ callbackPorts: "47310-47339", loginTimeoutMs: 5000 }));
+  restoreEnv = setEnv({ PI_CLINE_API_BASE: `${auth.url}/api/v1` });
+  reloadClineConfig(process.cwd());
+});
+
+afterEach(async () => {
+  restoreEnv();
+  fs.rmSync(USER_CONFIG_FILE, { force: true });
+  reloadClineConfig(process.cwd());
+  await auth.close();
+});
+
+function getOAuthProvider(): any {
+  let config: any = null;
+  registerClineProvider({ registerProvider: (_name: string, providerConfig: any) => (config = providerConfig) } as any, []);
+  return config.oauth;
+}
+
+// Starts a login and resolves once the authorize request was made and the URL shown
+function startLogin(options: { manualInput?: Promise<string> } = {}) {
+  let shown: (url: string) => void;
+  const authShown = new Promise<string>(resolve => (shown = resolve));
+  const login: Promise<any> = getOAuthProvider().login({
+    onAuth: ({ url }: { url: string }) => shown(url),
+    onPrompt: async () => "",
+    onManualCodeInput: options.manualInput ? () => options.manualInput! : undefined,
+  });
+  // Keep unhandled-rejection warnings away while the test drives the callback
+  login.catch(() => {});
+
+  return {
+    login,
+    authorize: authShown.then(() => {
+      const request = auth.requests.find(r => r.url.startsWith("/api/v1/auth/authorize"))!;
+      return new URL(request.url, "http://stand-in").searchParams;
+    }),
+  };
+}
+
+function tokenRequests() {
+  return auth.requests.filter(r => r.url === "/api/v1/auth/token").map(r => JSON.parse(r.body));
+}
+
+describe("login state and PKCE", () => {
+  it("sends state and an S256 challenge, and the matching verifier on exchange", async () => {
+    const { login, authorize } = startLogin();
+    const params = await authorize;
+
+    expect(params.get("state")).toMatch(/^[\w-]{16,}$/);
+    expect(params.get("code_challenge_method")).toBe("S256");
+
+    const callback = new URL(params.get("callback_url")!);
+    callback.searchParams.set("code", "code-1");
+    callback.searchParams.set("state", params.get("state")!);
+    callback.searchParams.set("provider", "google");
+    const page = await fetch(callback);
+    expect(page.status).toBe(200);
+
+    const credentials = await login;
+    expect(credentials.access).toBe("workos:access-1");
+    expect(credentials.refresh).toBe("refresh-1");
+
+    const [exchange] = tokenRequests();
+    expect(exchange).toMatchObject({ grant_type: "authorization_code", code: "code-1", provider: "google" });
+    const challenge = crypto.createHash("sha256").update(exchange.code_verifier).digest("base64url");
+    expect(challenge).toBe(params.get("code_challenge"));
+  });
+
+  it("rejects a local callback without state", async () => {
+    const { login, authorize } = startLogin();
+    const callback = new URL((await authorize).get("callback_url")!);
+    callback.searchParams.set("code", "code-2");
+
+    const page = await fetch(callback);
+    expect(page.status).toBe(400);
+    expect(await page.text()).toContain("OAuth state missing");
+    await expect(login).rejects.toThrow(/OAuth state missing/);
+    expect(tokenRequests()).toEqual([]);
+  });
+
+  it("rejects a local callback with a mismatched state", async () => {
+    const { login, authorize } = startLogin();
+    const callback = new URL((await authorize).get("callback_url")!);
+    callback.searchParams.set("code", "code-3");
+    callback.searchParams.set("state", "forged-state");
+
+    const page = await fetch(callback);
+    expect(page.status).toBe(400);
+    expect(await page.text()).toContain("OAuth state mismatch");
+    await expect(login).rejects.toThrow(/OAuth state mismatch/);
+    expect(tokenRequests()).toEqual([]);
+  });
+
+  it("rejects a pasted callback URL with a bad state", async () => {
+    let paste: (value: string) => void;
+    const manualInput = new Promise<string>(resolve => (paste = resolve));
+    const { login, authorize } = startLogin({ manualInput });
+
+    const callback = new URL((await authorize).get("callback_url")!);
+    callback.searchParams.set("code", "code-4");
+    callback.searchParams.set("state", "state-from-another-login");
+    paste!(callback.toString());
+
+    await expect(login).rejects.toThrow(/OAuth state mismatch/);
+    expect(tokenRequests()).toEqual([]);
+  });
+
+  it("rejects a pasted callback URL without state", async () => {
+    let paste: (value: string) => void;
+    const manualInput = new Promise<string>(resolve => (paste = resolve));
+    const { login, authorize } = startLogin({ manualInput });
+
+    const callback = new URL((await authorize).get("callback_url")!);
+    callback.searchParams.set("code", "code-6");
+    paste!(callback.toString());
+
+    await expect(login).rejects.toThrow(/OAuth state missing/);
+    expect(tokenRequests()).toEqual([]);
+  });
+
+  it("accepts a pasted callback URL with the right state", async () => {
+    let paste: (value: string) => void;
+    const manualInput = new Promise<string>(resolve => (paste = resolve));
+    const { login, authorize } = startLogin({ manualInput });
+
+    const params = await authorize;
+    const callback = new URL(params.get("callback_url")!);
+    callback.searchParams.set("code", "code-5");
+    callback.searchParams.set("state", params.get("state")!);
+    paste!(callback.toString());
+
+    await expect(login).resolves.toMatchObject({ access: "workos:access-1" });
+    expect(tokenRequests()[0]).toMatchObject({ code: "code-5", code_verifier: expect.any(String) });
+  });
+});
+
+describe("login error callbacks", () => {
+  it("fails the login with the provider's description", async () => {
+    const { login, authorize } = startLogin();
+    const params = await authorize;
+    const callback = new URL(params.get("callback_url")!);
+    callback.searchParams.set("error", "access_denied");
+    callback.searchParams.set("error_description", "User cancelled the sign-in");
+    callback.searchParams.set("state", params.get("state")!);
+
+    const page = await fetch(callback);
+    expect(page.status).toBe(400);
+    expect(await page.text()).toContain("User cancelled the sign-in");
+    await expect(login).rejects.toThrow("Cline login failed: User cancelled the sign-in (access_denied)");
+  });
+
+  it("checks the state before showing the error", async () => {
+    const { login, authorize } = startLogin();
+    const callback = new URL((await authorize).get("callback_url")!);
+    callback.searchParams.set("error", "access_denied");
+    callback.searchParams.set("error_description", "Visit evil.example to continue");
+    callback.searchParams.set("state", "forged-state");
+
+    const page = await fetch(callback);
+    expect(page.status).toBe(400);
+    expect(await page.text()).not.toContain("evil.example");
+    await expect(login).rejects.toThrow(/OAuth state mismatch/);
+  });
+});
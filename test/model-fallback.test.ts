@@ -0,0 +1,84 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { TEST_HOME } from "./helpers";
+
+const MODELS = [
+  { id: "minimax/minimax-m2", name: "MiniMax M2", contextWindow: 204800 },
+  { id: "x-ai/grok-code-fast-1", name: "Grok Code Fast 1", contextWindow: 256000 },
+  { id: "z-ai/glm-4.6", name: "GLM 4.6", contextWindow: 32000 },
+];
+
+// Extension handlers registered on a stand-in pi, keyed by event name
+const handlers: Record<string, (event: any, ctx: any) => Promise<void>> = {};
+let notifications: Array<{ message: string; level: string }> = [];
+let selectedModels: string[] = [];
+
+beforeAll(async () => {
+  // The extension loads its model list from the cache when imported
+  const cacheFile = path.join(TEST_HOME, ".pi", "agent", ".cline-models-cache.json");
+  fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+  fs.writeFileSync(cacheFile, JSON.stringify({ version: 2, timestamp: Date.now(), models: MODELS, sources: {} }));
+
+  const { default: extension } = await import("../index");
+  const pi: any = new Proxy({
+    on: (event: string, handler: any) => (handlers[event] = handler),
+    setModel: async (model: any) => (selectedModels.push(model.id), true),
+  }, { get: (target: any, key) => target[key] ?? (() => {}) });
+  extension(pi);
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  notifications = [];
+  selectedModels = [];
+  // Repeated hints are only shown once a minute
+  vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+});
+
+// Ends a failed completion on the current model, as Pi reports it to extensions
+async function failCompletion(errorMessage: string, modelId = MODELS[0].id): Promise<void> {
+  const ctx: any = {
+    model: { ...MODELS.find(model => model.id === modelId), provider: "cline" },
+    modelRegistry: { find: (_provider: string, id: string) => ({ ...MODELS.find(model => model.id === id), provider: "cline" }) },
+    ui: { notify: (message: string, level: string) => notifications.push({ message, level }), setStatus: () => {} },
+  };
+  const message = { role: "assistant", provider: "cline", model: modelId, stopReason: "error", errorMessage };
+  await handlers.message_end({ message }, ctx);
+}
+
+describe("model failures", () => {
+  it("does not switch models on a bare 403", async () => {
+    await failCompletion("403 access forbidden");
+
+    expect(selectedModels).toEqual([]);
+    expect(notifications).toEqual([expect.objectContaining({ message: expect.stringContaining("Cline refused the request (403)") })]);
+  });
+
+  it("switches models when the 403 names the model", async () => {
+    await failCompletion("403 This model is not allowed on the free plan", MODELS[1].id);
+
+    expect(selectedModels).toEqual([MODELS[0].id]);
+    // The switch is the whole story: no re-login advice for a model refusal
+    expect(notifications.map(n => n.message)).toEqual([
+      `Cline: ${MODELS[1].id} was refused by Cline (403). Switched to ${MODELS[0].id}.`,
+    ]);
+  });
+
+  it("switches models after repeated server errors only", async () => {
+    await failCompletion("502 Bad Gateway", MODELS[2].id);
+    await failCompletion("503 Service Unavailable", MODELS[2].id);
+    expect(selectedModels).toEqual([]);
+
+    // The model refused earlier in this session is not picked again
+    await failCompletion("500 Internal Server Error", MODELS[2].id);
+    expect(selectedModels).toEqual([MODELS[0].id]);
+    expect(notifications.map(n => n.message)).toEqual([
+      `Cline: ${MODELS[2].id} failed 3 times in a row with server errors. Switched to ${MODELS[0].id}.`,
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { fixturePath, readFixture, sendJson, setEnv, startStandInServer } from "./helpers";
+import { createModelSources, loadModelSources, orderModelSources, parseCatalogJson, reloadClineConfig } from "../index";
+
+type Source = Parameters<typeof loadModelSources>[0][number];
+
+// A source serving a catalog fixture file
+function fixtureSource(name: string, file: string, options: { fallback?: boolean } = {}): Source {
+  return {
+    name,
+    fallback: options.fallback,
+    async load() {
+      return { entries: parseCatalogJson(JSON.parse(readFixture("catalog", file))) };
+    },
+  };
+}
+
+function failingSource(name: string, message: string, options: { fallback?: boolean } = {}): Source {
+  return {
+    name,
+    fallback: options.fallback,
+    async load() {
+      throw new Error(message);
+    },
+  };
+}
+
+function unconfiguredSource(name: string): Source {
+  return { name, async load() { return null; } };
+}
+
+let restoreEnv: (() => void) | null = null;
+
+afterEach(() => {
+  restoreEnv?.();
+  restoreEnv = null;
+  reloadClineConfig(process.cwd());
+});
+
+describe("parseCatalogJson", () => {
+  it("accepts { models: [...] } with string and object entries", () => {
+    const entries = parseCatalogJson(JSON.parse(readFixture("catalog", "local-models.json")));
+
+    expect(entries).toEqual([
+      {
+        id: "stealth/giga-potato",
+        name: "Giga Potato",
+        contextWindow: 256000,
+        maxTokens: 32000,
+        input: ["text", "image"],
+        freeUntil: "2026-03-01",
+      },
+      { id: "minimax/minimax-m2" },
+      { id: "x-ai/grok-code-fast-1", contextWindow: 131072 },
+    ]);
+  });
+
+  it("accepts OpenRouter-style { data: [...] } and a plain array", () => {
+    const fromData = parseCatalogJson(JSON.parse(readFixture("catalog", "cline-api-models.json")));
+    expect(fromData.map(e => e.id)).toEqual(["x-ai/grok-code-fast-1", "moonshotai/kimi-k2", "anthropic/claude-sonnet-4.5"]);
+    expect(fromData[0]).toMatchObject({ contextWindow: 256000, maxTokens: 10000 });
+
+    const fromArray = parseCatalogJson(JSON.parse(readFixture("catalog", "cached-models.json")));
+    expect(fromArray.map(e => e.id)).toEqual(["cached/old-model", "minimax/minimax-m2"]);
+  });
+
+  it("drops entries without an id and rejects other shapes", () => {
+    expect(parseCatalogJson([{ name: "no id" }, { id: "  " }, "", { id: "ok/model" }])).toEqual([{ id: "ok/model" }]);
+    expect(() => parseCatalogJson({ items: [] })).toThrow(/Expected an array of models/);
+  });
+});
+
+describe("loadModelSources", () => {
+  it("merges sources in order and records where each model came from", async () => {
+    const result = await loadModelSources([
+      fixtureSource("local", "local-models.json"),
+      fixtureSource("cline-api", "cline-api-models.json"),
+    ]);
+
+    expect(result.entries.map(e => [e.id, e.source])).toEqual([
+      ["stealth/giga-potato", "local"],
+      ["minimax/minimax-m2", "local"],
+      ["x-ai/grok-code-fast-1", "local"],
+      ["moonshotai/kimi-k2", "cline-api"],
+      ["anthropic/claude-sonnet-4.5", "cline-api"],
+    ]);
+    expect(result.fromFallback).toBe(false);
+  });
+
+  it("resolves duplicate IDs in favour of the earlier source", async () => {
+    const apiFirst = await loadModelSources([
+      fixtureSource("cline-api", "cline-api-models.json"),
+      fixtureSource("local", "local-models.json"),
+    ]);
+    const grok = apiFirst.entries.find(e => e.id === "x-ai/grok-code-fast-1");
+    expect(grok).toMatchObject({ source: "cline-api", name: "Grok Code Fast 1 (API)", contextWindow: 256000 });
+
+    const localFirst = await loadModelSources([
+      fixtureSource("local", "local-models.json"),
+      fixtureSource("cline-api", "cline-api-models.json"),
+    ]);
+    expect(localFirst.entries.find(e => e.id === "x-ai/grok-code-fast-1")).toEqual({
+      id: "x-ai/grok-code-fast-1",
+      contextWindow: 131072,
+      source: "local",
+    });
+  });
+
+  it("reports per-source status and counts models actually added", async () => {
+    const result = await loadModelSources([
+      fixtureSource("local", "local-models.json"),
+      failingSource("github", "freeModels array not found"),
+      unconfiguredSource("pinned"),
+      fixtureSource("cline-api", "cline-api-models.json"),
+      fixtureSource("cache", "cached-models.json", { fallback: true }),
+    ]);
+
+    expect(result.reports).toEqual([
+      { name: "local", status: "ok", count: 3, fallback: false, notModified: undefined },
+      { name: "github", status: "failed", count: 0, fallback: false, error: "freeModels array not found" },
+      { name: "pinned", status: "skipped", count: 0, fallback: false, error: "Not configured" },
+      // The duplicate grok entry is not counted
+      { name: "cline-api", status: "ok", count: 2, fallback: false, notModified: undefined },
+      { name: "cache", status: "skipped", count: 0, fallback: true, error: "Primary sources succeeded" },
+    ]);
+    expect(Object.keys(result.records)).toEqual(["local", "cline-api"]);
+  });
+
+  it("skips the cache when any primary source succeeds", async () => {
+    const result = await loadModelSources([
+      failingSource("github", "HTTP 500"),
+      fixtureSource("local", "local-models.json"),
+      fixtureSource("cache", "cached-models.json", { fallback: true }),
+    ]);
+
+    expect(result.fromFallback).toBe(false);
+    expect(result.entries.some(e => e.source === "cache")).toBe(false);
+  });
+
+  it("falls back to the cache only when every primary source fails", async () => {
+    const result = await loadModelSources([
+      failingSource("github", "HTTP 500"),
+      failingSource("cline-api", "fetch failed"),
+      fixtureSource("cache", "cached-models.json", { fallback: true }),
+    ]);
+
+    expect(result.fromFallback).toBe(true);
+    expect(result.entries.map(e => [e.id, e.source])).toEqual([
+      ["cached/old-model", "cache"],
+      ["minimax/minimax-m2", "cache"],
+    ]);
+    expect(result.reports.map(r => [r.name, r.status])).toEqual([
+      ["github", "failed"],
+      ["cline-api", "failed"],
+      ["cache", "ok"],
+    ]);
+    // Fallback sources are not recorded as primary cache records
+    expect(result.records).toEqual({});
+  });
+
+  it("reports a failed cache when nothing is available", async () => {
+    const result = await loadModelSources([
+      failingSource("github", "HTTP 500"),
+      failingSource("cache", "No cache", { fallback: true }),
+    ]);
+
+    expect(result.entries).toEqual([]);
+    expect(result.fromFallback).toBe(false);
+    expect(result.reports[1]).toMatchObject({ name: "cache", status: "failed", error: "No cache" });
+  });
+});
+
+describe("orderModelSources", () => {
+  const sources = ["github", "cline-api", "local", "cache"].map(name => unconfiguredSource(name));
+
+  it("keeps the built-in order when modelSources is not set", () => {
+    expect(orderModelSources(sources).map(s => s.name)).toEqual(["github", "cline-api", "local", "cache"]);
+  });
+
+  it("reorders and disables sources from modelSources", () => {
+    restoreEnv = setEnv({ PI_CLINE_MODEL_SOURCES: "local, cache, unknown" });
+    reloadClineConfig(process.cwd());
+
+    expect(orderModelSources(sources).map(s => s.name)).toEqual(["local", "cache"]);
+  });
+});
+
+describe("built-in sources", () => {
+  it("load the local file and the Cline API stand-in in the configured order", async () => {
+    const server = await startStandInServer((req, res) => {
+      if (req.url === "/api/v1/models") sendJson(res, 200, JSON.parse(readFixture("catalog", "cline-api-models.json")));
+      else sendJson(res, 404, { error: "not found" });
+    });
+
+    try {
+      restoreEnv = setEnv({
+        PI_CLINE_API_BASE: `${server.url}/api/v1`,
+        PI_CLINE_MODELS_SOURCE: fixturePath("catalog", "local-models.json"),
+        PI_CLINE_MODEL_SOURCES: "cline-api,local",
+      });
+      reloadClineConfig(process.cwd());
+
+      const result = await loadModelSources(orderModelSources(createModelSources()));
+
+      // Paid models from the API are filtered out; the API wins the duplicate grok entry
+      expect(result.entries.map(e => [e.id, e.source])).toEqual([
+        ["x-ai/grok-code-fast-1", "cline-api"],
+        ["moonshotai/kimi-k2", "cline-api"],
+        ["stealth/giga-potato", "local"],
+        ["minimax/minimax-m2", "local"],
+      ]);
+      expect(result.reports.map(r => [r.name, r.status, r.count])).toEqual([
+        ["cline-api", "ok", 2],
+        ["local", "ok", 2],
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
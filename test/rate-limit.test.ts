@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { readFixture, startStandInServer, type StandInServer } from "./helpers";
+import { getRateLimitDelayMs, parseDelayHeader, streamClineCompletions } from "../index";
+
+let server: StandInServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+// Stand-in completions endpoint: answers with the scripted 429 headers in order, then streams a reply
+async function startCompletionsApi(rateLimits: Record<string, string>[]): Promise<StandInServer> {
+  const script = [...rateLimits];
+  return startStandInServer((_req, res) => {
+    const headers = script.shift();
+    if (headers) {
+      res.writeHead(429, { "Content-Type": "application/json", ...headers });
+      res.end(readFixture("completions", "rate-limited.json"));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    res.end(readFixture("completions", "ok.sse"));
+  });
+}
+
+async function complete(baseUrl: string, options: { modelId?: string; signal?: AbortSignal } = {}): Promise<any> {
+  const model: any = {
+    id: options.modelId ?? "test/model",
+    name: "Test Model",
+    api: "openai-completions",
+    provider: "cline",
+    baseUrl,
+    reasoning: false,
+    input: ["text"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: 32000,
+    maxTokens: 4096,
+  };
+  const context: any = { messages: [{ role: "user", content: "Hi", timestamp: Date.now() }] };
+  let result: any;
+  for await (const event of streamClineCompletions(model, context, { apiKey: "workos:test", signal: options.signal })) {
+    if (event.type === "done") result = event.message;
+    if (event.type === "error") result = event.error;
+  }
+  return result;
+}
+
+const epochSeconds = (offsetSeconds: number) => String(Math.floor(Date.now() / 1000) + offsetSeconds);
+
+describe("parseDelayHeader", () => {
+  it("reads seconds, durations and HTTP dates", () => {
+    expect(parseDelayHeader("12")).toBe(12_000);
+    expect(parseDelayHeader("1.5")).toBe(1500);
+    expect(parseDelayHeader("6m0s")).toBe(360_000);
+    expect(parseDelayHeader("200ms")).toBe(200);
+    expect(parseDelayHeader(new Date(Date.now() + 30_000).toUTCString())).toBeGreaterThan(28_000);
+  });
+
+  it("reads epoch seconds and milliseconds relative to now", () => {
+    expect(parseDelayHeader(epochSeconds(30))).toBeGreaterThan(28_000);
+    expect(parseDelayHeader(epochSeconds(30))).toBeLessThanOrEqual(30_000);
+    expect(parseDelayHeader(String(Date.now() + 5000))).toBeGreaterThan(4000);
+    expect(parseDelayHeader(String(Date.now() + 5000))).toBeLessThanOrEqual(5000);
+    expect(parseDelayHeader(epochSeconds(-60))).toBe(0);
+  });
+
+  it("drops implausible values", () => {
+    expect(parseDelayHeader("999999999")).toBeUndefined();
+    expect(parseDelayHeader(epochSeconds(7 * 24 * 60 * 60))).toBeUndefined();
+    expect(parseDelayHeader("soon")).toBeUndefined();
+    expect(parseDelayHeader("")).toBeUndefined();
+  });
+});
+
+describe("getRateLimitDelayMs", () => {
+  it("falls through to the next header when one is implausible", () => {
+    const delay = getRateLimitDelayMs({ "retry-after": "999999999", "x-ratelimit-reset": epochSeconds(10) }, 0);
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(11_000);
+  });
+
+  it("backs off exponentially without a usable hint", () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const delay = getRateLimitDelayMs({ "x-ratelimit-reset": "999999999" }, attempt);
+      expect(delay).toBeGreaterThanOrEqual(1000 * 2 ** attempt);
+      expect(delay).toBeLessThanOrEqual(1000 * 2 ** (attempt + 1));
+    }
+  });
+});
+
+describe("streamClineCompletions rate limits", () => {
+  it("retries scripted 429s and returns the reply", async () => {
+    server = await startCompletionsApi([
+      { "Retry-After": "0" },
+      { "x-ratelimit-reset": epochSeconds(-1) },
+      { "retry-after-ms": "10" },
+    ]);
+
+    const message = await complete(server.url);
+
+    expect(message.content).toEqual([expect.objectContaining({ type: "text", text: "Hello there" })]);
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it("gives up after rateLimitMaxRetries", async () => {
+    server = await startCompletionsApi(Array.from({ length: 10 }, () => ({ "Retry-After": "0" })));
+
+    const error = await complete(server.url);
+
+    expect(error.errorMessage).toMatch(/^429\b/);
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it("does not wait longer than rateLimitMaxDelaySeconds", async () => {
+    server = await startCompletionsApi([{ "Retry-After": "120" }]);
+
+    const error = await complete(server.url);
+
+    expect(error.errorMessage).toContain("Cline asked to wait");
+    expect(error.errorMessage).toContain("longer than rateLimitMaxDelaySeconds (60s)");
+    expect(server.requests).toHaveLength(1);
+  });
+});
+
+describe("streamClineCompletions backoff windows", () => {
+  it("runs requests to the same model in parallel when it is not rate limited", async () => {
+    // Each reply waits until both requests have arrived
+    let arrived!: () => void;
+    const bothArrived = new Promise<void>(resolve => (arrived = resolve));
+    server = await startStandInServer(async (_req, res) => {
+      if (server!.requests.length === 2) arrived();
+      await bothArrived;
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.end(readFixture("completions", "ok.sse"));
+    });
+
+    const replies = await Promise.all([
+      complete(server.url, { modelId: "test/parallel" }),
+      complete(server.url, { modelId: "test/parallel" }),
+    ]);
+
+    expect(replies.map(reply => reply.stopReason)).toEqual(["stop", "stop"]);
+  });
+
+  it("holds other requests to the model while it backs off", async () => {
+    const arrivals: number[] = [];
+    server = await startStandInServer((_req, res) => {
+      arrivals.push(Date.now());
+      if (arrivals.length === 1) {
+        res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "1" });
+        res.end(readFixture("completions", "rate-limited.json"));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.end(readFixture("completions", "ok.sse"));
+    });
+
+    const first = complete(server.url, { modelId: "test/window" });
+    while (arrivals.length === 0) await new Promise(resolve => setTimeout(resolve, 10));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const second = complete(server.url, { modelId: "test/window" });
+    await Promise.all([first, second]);
+
+    expect(arrivals).toHaveLength(3);
+    expect(Math.min(arrivals[1], arrivals[2]) - arrivals[0]).toBeGreaterThanOrEqual(900);
+  });
+
+  it("reports an abort during the backoff as aborted, with the signal's reason", async () => {
+    server = await startCompletionsApi([{ "Retry-After": "30" }]);
+    const controller = new AbortController();
+
+    const result = complete(server.url, { modelId: "test/abort", signal: controller.signal });
+    while (server.requests.length === 0) await new Promise(resolve => setTimeout(resolve, 10));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const abortedAt = Date.now();
+    controller.abort(new Error("Cancelled by user"));
+    const error = await result;
+
+    expect(Date.now() - abortedAt).toBeLessThan(500);
+    expect(error.stopReason).toBe("aborted");
+    expect(error.errorMessage).toBe("Cancelled by user");
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("leaves the global fetch alone", async () => {
+    server = await startCompletionsApi([{ "Retry-After": "0" }]);
+    const originalFetch = globalThis.fetch;
+
+    const result = complete(server.url, { modelId: "test/fetch" });
+    expect(globalThis.fetch).toBe(originalFetch);
+    await result;
+
+    expect(globalThis.fetch).toBe(originalFetch);
+    expect(server.requests).toHaveLength(2);
+  });
+});
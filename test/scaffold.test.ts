@@ -0,0 +1,60 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setEnv } from "./helpers";
+import { loadScaffoldFromDebugCapture, reloadClineConfig } from "../index";
+
+const ENVIRONMENT_DETAILS = "<environment_details>\n# Current Mode\nACT MODE\n</environment_details>";
+const PLAN_BLOCK = "\n# task_progress List (Optional - Plan Mode)\n\nCaptured plan mode reminder.";
+const ACT_BLOCK = "\n# task_progress RECOMMENDED\n\nCaptured act mode reminder.";
+
+let captureDir: string;
+let restoreEnv: () => void;
+
+beforeEach(() => {
+  captureDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-cline-capture-"));
+  restoreEnv = setEnv({ PI_CLINE_CAPTURE_DIR: captureDir });
+  reloadClineConfig(process.cwd());
+});
+
+afterEach(() => {
+  restoreEnv();
+  reloadClineConfig(process.cwd());
+  fs.rmSync(captureDir, { recursive: true, force: true });
+});
+
+// A capture in the <id>-request.body.json / <id>-request.headers.json layout
+function writeCapture(id: string, taskProgress: string, writer?: string): void {
+  const body = { messages: [{ role: "user", content: [
+    { type: "text", text: "<task>\nHi\n</task>" },
+    { type: "text", text: taskProgress },
+    { type: "text", text: ENVIRONMENT_DETAILS },
+  ] }] };
+  fs.writeFileSync(path.join(captureDir, `${id}-request.body.json`), JSON.stringify(body));
+  fs.writeFileSync(path.join(captureDir, `${id}-request.headers.json`), JSON.stringify({ url: "https://api.cline.bot", headers: {}, writer }));
+}
+
+describe("loadScaffoldFromDebugCapture", () => {
+  it("reads the block for each mode from Cline's captures", () => {
+    writeCapture("01JA0000000000000000000001", PLAN_BLOCK);
+    writeCapture("01JA0000000000000000000002", ACT_BLOCK);
+
+    expect(loadScaffoldFromDebugCapture("plan")).toMatchObject({
+      taskProgress: PLAN_BLOCK,
+      source: path.join(captureDir, "01JA0000000000000000000001-request.body.json"),
+    });
+    expect(loadScaffoldFromDebugCapture("act")).toMatchObject({
+      taskProgress: ACT_BLOCK,
+      source: path.join(captureDir, "01JA0000000000000000000002-request.body.json"),
+    });
+  });
+
+  it("skips captures written by this extension", () => {
+    writeCapture("01JA0000000000000000000001", PLAN_BLOCK);
+    writeCapture("01JA0000000000000000000002", "\n# task_progress List (Optional - Plan Mode)\n\nOur own block.", "pi-cline");
+
+    expect(loadScaffoldFromDebugCapture("plan")?.source).toBe(path.join(captureDir, "01JA0000000000000000000001-request.body.json"));
+    expect(loadScaffoldFromDebugCapture("act")).toBeNull();
+  });
+});
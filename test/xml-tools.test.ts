@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { readFixture } from "./helpers";
+import { translateClineXmlTools } from "../index";
+
+const translate = (name: string) => translateClineXmlTools(readFixture("xml-tools", name));
+
+describe("translateClineXmlTools", () => {
+  it("keeps closing tags that are part of the file content", () => {
+    const result = translate("write-with-closing-tags.txt");
+
+    expect(result.skipped).toEqual([]);
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0]).toMatchObject({ name: "write", arguments: { path: "docs/tools.md" } });
+    expect(result.toolCalls[0].arguments.content).toBe([
+      "# Writing files",
+      "",
+      "Wrap the file text in `<content>` and close it with `</content>`.",
+      "The whole call ends with `</write_to_file>`.",
+    ].join("\n"));
+    expect(result.text).toBe("I'll document the tool syntax.");
+  });
+
+  it("keeps closing tags that are part of a diff", () => {
+    const result = translate("replace-with-closing-tags.txt");
+
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0]).toMatchObject({
+      name: "edit",
+      arguments: {
+        path: "src/render.ts",
+        edits: [{ oldText: "  return `<diff>${body}</diff>`;", newText: "  return `<diff>\\n${body}\\n</diff>`;" }],
+      },
+    });
+  });
+
+  it("translates consecutive blocks separately", () => {
+    const result = translate("consecutive-blocks.txt");
+
+    expect(result.toolCalls.map(call => [call.name, call.arguments])).toEqual([
+      ["write", { path: "a.txt", content: "first" }],
+      ["write", { path: "b.txt", content: "second" }],
+      ["bash", { command: "npm test" }],
+    ]);
+    expect(result.text).toBe("Creating both files, then running the tests.");
+  });
+
+  it("leaves ambiguous blocks as text", () => {
+    const text = readFixture("xml-tools", "ambiguous-block.txt");
+    const result = translateClineXmlTools(text);
+
+    expect(result.toolCalls).toEqual([]);
+    expect(result.skipped).toEqual(["<write_to_file> (ambiguous <content>)"]);
+    expect(result.text).toBe(text);
+  });
+
+  it("ignores examples in code fences", () => {
+    const text = readFixture("xml-tools", "fenced-example.txt");
+    const result = translateClineXmlTools(text);
+
+    expect(result.toolCalls).toEqual([]);
+    expect(result.skipped).toEqual([]);
+    expect(result.text).toBe(text);
+  });
+});